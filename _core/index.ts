@@ -7,6 +7,15 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { iniciarTarefas } from "../tarefas";
+import { iniciarConversas } from "../conversas";
+import { iniciarAssistente } from "../assistente";
+import { iniciarRecibos } from "../recibos";
+import { iniciarAudios } from "../audios";
+import { iniciarConsentimento } from "../consentimento";
+import { iniciarDepositos } from "../depositos";
+import { iniciarWhatsApp } from "../whatsappProvedor";
+import { registerZApiWebhook } from "../whatsapp";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -35,6 +44,8 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Z-API inbound messages and delivery status under /api/whatsapp/zapi/webhook
+  registerZApiWebhook(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +71,24 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Existing stock and sales belong to the default depot until others are created
+  await iniciarDepositos();
+  // Inbound WhatsApp messages are stored as client conversations
+  iniciarConversas();
+  // The order assistant answers inbound messages when enabled in its settings
+  iniciarAssistente();
+  // Delivery and read receipts move sent messages to entregue/lida
+  iniciarRecibos();
+  // Voice notes are transcribed and turned into draft orders
+  iniciarAudios();
+  // Opt-out/opt-in keywords (SAIR, VOLTAR) update marketing consent
+  iniciarConsentimento();
+  // Connect the WhatsApp provider selected in settings
+  await iniciarWhatsApp();
+
+  // Background jobs (scheduled campaigns, daily reports)
+  await iniciarTarefas();
 }
 
 startServer().catch(console.error);
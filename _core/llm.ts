@@ -30,6 +30,7 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  tool_calls?: ToolCall[];
 };
 
 export type Tool = {
@@ -137,7 +138,7 @@ const normalizeContentPart = (
 };
 
 const normalizeMessage = (message: Message) => {
-  const { role, name, tool_call_id } = message;
+  const { role, name, tool_call_id, tool_calls } = message;
 
   if (role === "tool" || role === "function") {
     const content = ensureArray(message.content)
@@ -152,6 +153,18 @@ const normalizeMessage = (message: Message) => {
     };
   }
 
+  // Assistant turns that requested tools must be echoed back with their calls
+  if (role === "assistant" && tool_calls && tool_calls.length > 0) {
+    return {
+      role,
+      name,
+      content: ensureArray(message.content)
+        .map(part => (typeof part === "string" ? part : part.type === "text" ? part.text : ""))
+        .join(""),
+      tool_calls,
+    };
+  }
+
   const contentParts = ensureArray(message.content).map(normalizeContentPart);
 
   // If there's only text content, collapse to a single string for compatibility
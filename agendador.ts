@@ -0,0 +1,155 @@
+import { randomUUID } from "crypto";
+import * as os from "os";
+import type { TarefaAgendada } from "./schema";
+import * as db from "./db";
+
+export type ExecutorTarefa = (payload: any, tarefa: TarefaAgendada) => Promise<void>;
+
+// Identifica esta instância do servidor nos bloqueios de tarefa
+export const INSTANCIA = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const INTERVALO_VERIFICACAO_MS = 15 * 1000;
+const TAREFAS_POR_CICLO = 10;
+// Tempo máximo de posse de uma tarefa; depois disso outra instância pode assumi-la
+const DURACAO_BLOQUEIO_MS = 10 * 60 * 1000;
+// Espera antes de uma nova tentativa: 1, 2, 4, 8... minutos
+const ESPERA_BASE_TENTATIVA_MS = 60 * 1000;
+
+const executores = new Map<string, ExecutorTarefa>();
+let timer: NodeJS.Timeout | null = null;
+let executando = false;
+
+/**
+ * Registra a função que executa as tarefas de um tipo
+ */
+export function registrarTarefa(tipo: string, executor: ExecutorTarefa) {
+  executores.set(tipo, executor);
+}
+
+export function getTiposTarefa() {
+  return Array.from(executores.keys());
+}
+
+/**
+ * Agenda uma execução única de uma tarefa
+ */
+export async function agendarTarefa(params: {
+  tipo: string;
+  executarEm: Date;
+  payload?: unknown;
+  chave?: string;
+  maxTentativas?: number;
+}) {
+  if (!executores.has(params.tipo)) {
+    throw new Error(`Tipo de tarefa desconhecido: ${params.tipo}`);
+  }
+  return await db.createTarefaAgendada(params);
+}
+
+/**
+ * Garante que exista uma tarefa recorrente com a chave informada; se já
+ * existir, mantém o agendamento atual
+ */
+export async function garantirTarefaRecorrente(params: {
+  chave: string;
+  tipo: string;
+  intervaloMinutos: number;
+  primeiraExecucao: Date;
+  payload?: unknown;
+}) {
+  return await db.garantirTarefaAgendada({
+    chave: params.chave,
+    tipo: params.tipo,
+    payload: params.payload,
+    intervaloMinutos: params.intervaloMinutos,
+    executarEm: params.primeiraExecucao,
+  });
+}
+
+async function executarTarefa(tarefa: TarefaAgendada) {
+  const agora = new Date();
+  const bloqueada = await db.bloquearTarefaAgendada(
+    tarefa.id,
+    INSTANCIA,
+    agora,
+    new Date(agora.getTime() + DURACAO_BLOQUEIO_MS)
+  );
+  if (!bloqueada) return;
+
+  const tentativas = tarefa.tentativas + 1;
+  const proximaRecorrencia = tarefa.intervaloMinutos
+    ? new Date(Math.max(
+      tarefa.executarEm.getTime() + tarefa.intervaloMinutos * 60 * 1000,
+      agora.getTime()
+    ))
+    : null;
+
+  try {
+    const executor = executores.get(tarefa.tipo);
+    if (!executor) {
+      throw new Error(`Tipo de tarefa desconhecido: ${tarefa.tipo}`);
+    }
+
+    await executor(tarefa.payload, tarefa);
+
+    await db.concluirTarefaAgendada(tarefa.id, INSTANCIA, proximaRecorrencia
+      ? { status: "pendente", executarEm: proximaRecorrencia, tentativas: 0, ultimoErro: null }
+      : { status: "concluida" });
+  } catch (error: any) {
+    console.error(`[Agendador] Erro na tarefa #${tarefa.id} (${tarefa.tipo}):`, error);
+    const ultimoErro = error?.message || String(error);
+
+    if (tentativas < tarefa.maxTentativas) {
+      const espera = ESPERA_BASE_TENTATIVA_MS * 2 ** (tentativas - 1);
+      await db.concluirTarefaAgendada(tarefa.id, INSTANCIA, {
+        status: "pendente",
+        executarEm: new Date(Date.now() + espera),
+        ultimoErro,
+      });
+    } else if (proximaRecorrencia) {
+      // Recorrente esgotou as tentativas: registra o erro e segue para o próximo ciclo
+      await db.concluirTarefaAgendada(tarefa.id, INSTANCIA, {
+        status: "pendente",
+        executarEm: proximaRecorrencia,
+        tentativas: 0,
+        ultimoErro,
+      });
+    } else {
+      await db.concluirTarefaAgendada(tarefa.id, INSTANCIA, { status: "erro", ultimoErro });
+    }
+  }
+}
+
+async function verificarTarefas() {
+  if (executando) return;
+  executando = true;
+
+  try {
+    const prontas = await db.getTarefasProntas(new Date(), TAREFAS_POR_CICLO);
+    for (const tarefa of prontas) {
+      await executarTarefa(tarefa);
+    }
+  } catch (error) {
+    console.error("[Agendador] Erro ao verificar tarefas:", error);
+  } finally {
+    executando = false;
+  }
+}
+
+/**
+ * Inicia a verificação periódica das tarefas agendadas
+ */
+export function iniciarAgendador() {
+  if (timer) return;
+
+  console.log(`[Agendador] Iniciado na instância ${INSTANCIA}`);
+  timer = setInterval(verificarTarefas, INTERVALO_VERIFICACAO_MS);
+  verificarTarefas();
+}
+
+export function pararAgendador() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "./db";
+import { iniciarLLMLocal, roteiroLLMLocal, type ResponderLLMLocal } from "./llmLocal";
+
+vi.mock("./db", () => ({
+  getConfigAssistente: vi.fn(),
+  getClienteById: vi.fn(),
+  getPedidos: vi.fn(),
+  getItensPedidos: vi.fn(),
+  createPedido: vi.fn(),
+  updatePedido: vi.fn(),
+}));
+
+vi.mock("./precificacao", () => ({
+  getProdutosComPrecoCliente: vi.fn(async () => [
+    { id: 1, nome: "Gás P13", tipo: "gas_p13", precoEfetivo: 110 },
+  ]),
+  calcularVenda: vi.fn(async ({ itens }: { itens: { produtoId: number; quantidade: number }[] }) => {
+    const calculados = itens.map(item => ({
+      ...item,
+      produtoNome: "Gás P13",
+      precoUnitario: 110,
+      subtotal: 110 * item.quantidade,
+    }));
+    return { itens: calculados, total: calculados.reduce((sum, item) => sum + item.subtotal, 0) };
+  }),
+}));
+
+vi.mock("./conversas", () => ({ getConversa: vi.fn(), onMensagemRegistrada: vi.fn() }));
+vi.mock("./filaMensagens", () => ({ enfileirarMensagem: vi.fn() }));
+
+let responder: ResponderLLMLocal;
+let llm: Awaited<ReturnType<typeof iniciarLLMLocal>>;
+let executarAssistente: typeof import("./assistente").executarAssistente;
+
+type ClienteCadastrado = NonNullable<Awaited<ReturnType<typeof db.getClienteById>>>;
+type PedidoListado = Awaited<ReturnType<typeof db.getPedidos>>[number];
+
+const historico = [{ role: "user" as const, content: "Quero 2 gás, pago no pix" }];
+const itens = [{ produtoId: 1, quantidade: 2 }];
+
+function criarCliente(dados: Partial<ClienteCadastrado> = {}): ClienteCadastrado {
+  return {
+    id: 7,
+    nome: "Maria",
+    telefone: "85999990001",
+    endereco: "Rua A, 10",
+    bairro: "Centro",
+    regiao: "Norte",
+    observacoes: null,
+    ativo: true,
+    criadoEm: new Date("2026-01-05T10:00:00Z"),
+    categoria: null,
+    ...dados,
+  };
+}
+
+function criarPedido(dados: Partial<PedidoListado> = {}): PedidoListado {
+  return {
+    id: 1,
+    clienteId: 7,
+    clienteNome: "Maria",
+    clienteTelefone: "85999990001",
+    vendedorId: null,
+    vendedorNome: null,
+    status: "rascunho",
+    origem: "whatsapp",
+    endereco: "Rua A, 10",
+    bairro: "Centro",
+    regiao: "Norte",
+    horarioDesejado: null,
+    formaPagamento: null,
+    observacoes: null,
+    vendaId: null,
+    criadoEm: new Date("2026-01-05T10:00:00Z"),
+    saiuParaEntregaEm: null,
+    entregueEm: null,
+    ...dados,
+  };
+}
+
+beforeAll(async () => {
+  llm = await iniciarLLMLocal(requisicao => responder(requisicao));
+  // O ENV é lido na importação, então o assistente só é carregado depois
+  process.env.BUILT_IN_FORGE_API_URL = llm.url;
+  process.env.BUILT_IN_FORGE_API_KEY = "local";
+  ({ executarAssistente } = await import("./assistente"));
+});
+
+afterAll(async () => {
+  await llm.fechar();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  llm.requisicoes.length = 0;
+  vi.mocked(db.getConfigAssistente).mockResolvedValue(undefined);
+  vi.mocked(db.getClienteById).mockResolvedValue(criarCliente());
+  vi.mocked(db.getPedidos).mockResolvedValue([]);
+  vi.mocked(db.createPedido).mockResolvedValue(501);
+});
+
+describe("executarAssistente", () => {
+  it("calcula, cria o rascunho e responde com o texto final", async () => {
+    responder = roteiroLLMLocal([
+      { tool_calls: [{ name: "calcular_pedido", arguments: { itens } }] },
+      { tool_calls: [{ name: "criar_pedido", arguments: { itens, formaPagamento: "pix" } }] },
+      { content: "Pedido registrado! Total de R$ 220,00." },
+    ]);
+
+    const resultado = await executarAssistente({ clienteId: 7, historico });
+
+    expect(resultado.resposta).toBe("Pedido registrado! Total de R$ 220,00.");
+    expect(resultado.pedidoId).toBe(501);
+    expect(resultado.chamadas.map(c => c.ferramenta)).toEqual(["calcular_pedido", "criar_pedido"]);
+    expect(resultado.chamadas[0].resultado).toMatchObject({ total: 220 });
+
+    expect(db.createPedido).toHaveBeenCalledWith(
+      expect.objectContaining({
+        clienteId: 7,
+        status: "rascunho",
+        origem: "whatsapp",
+        endereco: "Rua A, 10",
+        formaPagamento: "pix",
+      }),
+      itens
+    );
+
+    // O resultado de cada ferramenta volta ao modelo na rodada seguinte
+    expect(llm.requisicoes).toHaveLength(3);
+    const retornoCalculo = llm.requisicoes[1].messages.at(-1);
+    expect(retornoCalculo).toMatchObject({ role: "tool", name: "calcular_pedido" });
+    expect(JSON.parse(retornoCalculo!.content as string)).toMatchObject({ total: 220 });
+  });
+
+  it("substitui o rascunho aberto do cliente em vez de criar outro", async () => {
+    vi.mocked(db.getPedidos).mockResolvedValue([criarPedido({ id: 42 })]);
+    responder = roteiroLLMLocal([
+      { tool_calls: [{ name: "criar_pedido", arguments: { itens, endereco: "Rua B, 20" } }] },
+      { content: "Pedido atualizado." },
+    ]);
+
+    const resultado = await executarAssistente({ clienteId: 7, historico });
+
+    expect(resultado.pedidoId).toBe(42);
+    expect(db.createPedido).not.toHaveBeenCalled();
+    expect(db.updatePedido).toHaveBeenCalledWith(42, expect.objectContaining({ endereco: "Rua B, 20" }), itens);
+  });
+
+  it("não grava pedido em simulação", async () => {
+    responder = roteiroLLMLocal([
+      { tool_calls: [{ name: "criar_pedido", arguments: { itens } }] },
+      { content: "Simulado." },
+    ]);
+
+    const resultado = await executarAssistente({ clienteId: 7, historico, simulacao: true });
+
+    expect(resultado.pedidoId).toBeNull();
+    expect(db.createPedido).not.toHaveBeenCalled();
+    expect(db.updatePedido).not.toHaveBeenCalled();
+  });
+
+  it("devolve o erro da ferramenta ao modelo", async () => {
+    responder = roteiroLLMLocal([
+      { tool_calls: [{ name: "criar_pedido", arguments: { itens: [] } }] },
+      { content: "Quais produtos você deseja?" },
+    ]);
+
+    const resultado = await executarAssistente({ clienteId: 7, historico });
+
+    expect(resultado.resposta).toBe("Quais produtos você deseja?");
+    expect(resultado.chamadas[0].resultado).toEqual({ erro: "Informe ao menos um item" });
+    expect(db.createPedido).not.toHaveBeenCalled();
+  });
+
+  it("desiste depois do máximo de rodadas de ferramentas", async () => {
+    responder = () => ({ tool_calls: [{ name: "listar_produtos", arguments: {} }] });
+
+    const resultado = await executarAssistente({ clienteId: 7, historico });
+
+    expect(resultado.resposta).toBeNull();
+    expect(resultado.chamadas).toHaveLength(5);
+    expect(llm.requisicoes).toHaveLength(5);
+  });
+});
@@ -0,0 +1,374 @@
+import { invokeLLM, type Message, type Tool } from "./_core/llm";
+import { identificarPalavraConsentimento } from "./consentimento";
+import { getConversa, onMensagemRegistrada, type MensagemRegistrada } from "./conversas";
+import * as db from "./db";
+import { calcularVenda, getProdutosComPrecoCliente } from "./precificacao";
+import { enfileirarMensagem } from "./filaMensagens";
+
+// Mensagens anteriores da conversa enviadas como contexto ao modelo
+const LIMITE_HISTORICO = 20;
+// Rodadas de chamadas de ferramenta antes de desistir de uma resposta
+const MAXIMO_RODADAS = 5;
+
+export const FORMAS_PAGAMENTO = ["dinheiro", "cartao_credito", "cartao_debito", "pix", "fiado"] as const;
+
+const INSTRUCOES = `Você é o atendente de uma revenda de gás e água que recebe pedidos pelo WhatsApp.
+Responda sempre em português, de forma curta e cordial.
+Use as ferramentas para consultar produtos, preços e os dados do cliente; nunca invente preço, produto ou endereço.
+"Gás" sem outra indicação é o botijão P13. "Endereço de sempre" é o endereço do cadastro ou do último pedido.
+Antes de registrar o pedido, use calcular_pedido e confirme com o cliente os itens, o total, o endereço e a forma de pagamento.
+Só chame criar_pedido depois que o cliente confirmar. Avise que o pedido será conferido por um atendente antes de sair para entrega.
+Se o cliente pedir algo fora de pedidos (reclamação, cobrança, dúvida que você não sabe), diga que um atendente vai responder em breve.`;
+
+const FERRAMENTAS: Tool[] = [
+  {
+    type: "function",
+    function: {
+      name: "listar_produtos",
+      description: "Lista os produtos ativos com o preço para este cliente",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "dados_cliente",
+      description: "Dados do cadastro do cliente e o último pedido dele",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "calcular_pedido",
+      description: "Calcula preço unitário, subtotais e total dos itens para confirmar com o cliente",
+      parameters: {
+        type: "object",
+        properties: {
+          itens: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                produtoId: { type: "integer" },
+                quantidade: { type: "integer", minimum: 1 },
+              },
+              required: ["produtoId", "quantidade"],
+            },
+          },
+        },
+        required: ["itens"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "criar_pedido",
+      description: "Registra o pedido confirmado pelo cliente para aprovação de um atendente",
+      parameters: {
+        type: "object",
+        properties: {
+          itens: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                produtoId: { type: "integer" },
+                quantidade: { type: "integer", minimum: 1 },
+              },
+              required: ["produtoId", "quantidade"],
+            },
+          },
+          endereco: { type: "string", description: "Endereço de entrega, se diferente do cadastro" },
+          formaPagamento: { type: "string", enum: [...FORMAS_PAGAMENTO] },
+          observacoes: { type: "string" },
+        },
+        required: ["itens"],
+      },
+    },
+  },
+];
+
+export type ItemPedidoAssistente = { produtoId: number; quantidade: number };
+
+export type ResultadoAssistente = {
+  resposta: string | null;
+  pedidoId: number | null;
+  chamadas: { ferramenta: string; argumentos: unknown; resultado: unknown }[];
+};
+
+export function validarItens(itens: unknown): ItemPedidoAssistente[] {
+  if (!Array.isArray(itens) || itens.length === 0) {
+    throw new Error("Informe ao menos um item");
+  }
+  return itens.map(item => {
+    const produtoId = Number(item?.produtoId);
+    const quantidade = Number(item?.quantidade);
+    if (!Number.isInteger(produtoId) || !Number.isInteger(quantidade) || quantidade < 1) {
+      throw new Error("Item inválido: informe produtoId e quantidade inteira positiva");
+    }
+    return { produtoId, quantidade };
+  });
+}
+
+async function getRascunhoAberto(clienteId: number) {
+  const rascunhos = await db.getPedidos({ clienteId, status: ["rascunho"] });
+  return rascunhos.length > 0 ? rascunhos[rascunhos.length - 1] : undefined;
+}
+
+/**
+ * Grava o rascunho de pedido do WhatsApp para aprovação do operador. Cada
+ * cliente tem no máximo um rascunho: um novo pedido substitui o anterior.
+ */
+export async function salvarRascunhoPedido(
+  cliente: { id: number; bairro: string | null; regiao: string | null },
+  dados: {
+    itens: ItemPedidoAssistente[];
+    endereco: string | null;
+    formaPagamento?: (typeof FORMAS_PAGAMENTO)[number];
+    observacoes?: string;
+  }
+) {
+  const rascunho = await getRascunhoAberto(cliente.id);
+  if (rascunho) {
+    await db.updatePedido(rascunho.id, {
+      endereco: dados.endereco,
+      formaPagamento: dados.formaPagamento,
+      observacoes: dados.observacoes,
+    }, dados.itens);
+    return rascunho.id;
+  }
+
+  return await db.createPedido({
+    clienteId: cliente.id,
+    status: "rascunho",
+    origem: "whatsapp",
+    endereco: dados.endereco,
+    bairro: cliente.bairro,
+    regiao: cliente.regiao,
+    formaPagamento: dados.formaPagamento,
+    observacoes: dados.observacoes,
+  }, dados.itens);
+}
+
+/**
+ * Executa uma ferramenta sempre no contexto do cliente da conversa; o modelo
+ * não consegue consultar nem criar pedidos para outro cliente
+ */
+async function executarFerramenta(nome: string, argumentos: any, clienteId: number, simulacao: boolean) {
+  switch (nome) {
+    case "listar_produtos": {
+      const produtos = await getProdutosComPrecoCliente(clienteId);
+      return produtos.map(produto => ({
+        produtoId: produto.id,
+        nome: produto.nome,
+        tipo: produto.tipo,
+        preco: produto.precoEfetivo,
+      }));
+    }
+
+    case "dados_cliente": {
+      const cliente = await db.getClienteById(clienteId);
+      if (!cliente) throw new Error("Cliente não encontrado");
+      const pedidos = await db.getPedidos({ clienteId, status: ["recebido", "em_rota", "entregue"] });
+      const ultimo = pedidos.sort((a, b) => b.criadoEm.getTime() - a.criadoEm.getTime())[0];
+      const itensUltimo = ultimo ? await db.getItensPedidos([ultimo.id]) : [];
+      return {
+        nome: cliente.nome,
+        endereco: cliente.endereco,
+        bairro: cliente.bairro,
+        ultimoPedido: ultimo
+          ? {
+            data: ultimo.criadoEm,
+            endereco: ultimo.endereco,
+            formaPagamento: ultimo.formaPagamento,
+            itens: itensUltimo.map(item => ({ produtoId: item.produtoId, produtoNome: item.produtoNome, quantidade: item.quantidade })),
+          }
+          : null,
+      };
+    }
+
+    case "calcular_pedido": {
+      const calculo = await calcularVenda({ itens: validarItens(argumentos?.itens), clienteId, perfil: "vendedor" });
+      return {
+        itens: calculo.itens.map(item => ({
+          produtoId: item.produtoId,
+          produtoNome: item.produtoNome,
+          quantidade: item.quantidade,
+          precoUnitario: item.precoUnitario,
+          subtotal: item.subtotal,
+        })),
+        total: calculo.total,
+      };
+    }
+
+    case "criar_pedido": {
+      const itens = validarItens(argumentos?.itens);
+      const calculo = await calcularVenda({ itens, clienteId, perfil: "vendedor" });
+      const cliente = await db.getClienteById(clienteId);
+      if (!cliente) throw new Error("Cliente não encontrado");
+
+      const endereco = typeof argumentos?.endereco === "string" && argumentos.endereco.trim()
+        ? argumentos.endereco.trim()
+        : cliente.endereco;
+      if (!endereco) {
+        throw new Error("Cliente sem endereço cadastrado: pergunte o endereço de entrega");
+      }
+
+      const formaPagamento = FORMAS_PAGAMENTO.find(forma => forma === argumentos?.formaPagamento);
+      const observacoes = typeof argumentos?.observacoes === "string" ? argumentos.observacoes : undefined;
+
+      if (simulacao) {
+        return { pedidoId: null, simulacao: true, total: calculo.total, endereco };
+      }
+
+      const pedidoId = await salvarRascunhoPedido(cliente, { itens, endereco, formaPagamento, observacoes });
+      return { pedidoId, total: calculo.total, endereco };
+    }
+
+    default:
+      throw new Error(`Ferramenta desconhecida: ${nome}`);
+  }
+}
+
+function extrairTexto(conteudo: unknown) {
+  if (typeof conteudo === "string") return conteudo.trim();
+  if (Array.isArray(conteudo)) {
+    return conteudo
+      .map(parte => (parte?.type === "text" ? parte.text : ""))
+      .join("")
+      .trim();
+  }
+  return "";
+}
+
+/**
+ * Conduz o atendimento de um cliente a partir do histórico da conversa. O
+ * endpoint do modelo vem de BUILT_IN_FORGE_API_URL, que pode apontar para um
+ * servidor local compatível com a API de chat completions. Em simulação
+ * nenhum pedido é gravado.
+ */
+export async function executarAssistente(params: {
+  clienteId: number;
+  historico: Message[];
+  simulacao?: boolean;
+}): Promise<ResultadoAssistente> {
+  const config = await db.getConfigAssistente();
+  const mensagens: Message[] = [
+    { role: "system", content: config?.instrucoes ? `${INSTRUCOES}\n\n${config.instrucoes}` : INSTRUCOES },
+    ...params.historico,
+  ];
+  const chamadas: ResultadoAssistente["chamadas"] = [];
+  let pedidoId: number | null = null;
+
+  for (let rodada = 0; rodada < MAXIMO_RODADAS; rodada++) {
+    const resultado = await invokeLLM({ messages: mensagens, tools: FERRAMENTAS, toolChoice: "auto" });
+    const mensagem = resultado.choices?.[0]?.message;
+    if (!mensagem) {
+      throw new Error("Resposta do modelo sem mensagem");
+    }
+
+    const toolCalls = mensagem.tool_calls ?? [];
+    if (toolCalls.length === 0) {
+      return { resposta: extrairTexto(mensagem.content) || null, pedidoId, chamadas };
+    }
+
+    mensagens.push({
+      role: "assistant",
+      content: extrairTexto(mensagem.content),
+      tool_calls: toolCalls,
+    });
+
+    for (const toolCall of toolCalls) {
+      let argumentos: unknown = {};
+      let retorno: unknown;
+      try {
+        argumentos = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+        retorno = await executarFerramenta(toolCall.function.name, argumentos, params.clienteId, !!params.simulacao);
+        if (toolCall.function.name === "criar_pedido") {
+          pedidoId = (retorno as { pedidoId: number | null }).pedidoId;
+        }
+      } catch (error: any) {
+        retorno = { erro: error?.message || String(error) };
+      }
+
+      chamadas.push({ ferramenta: toolCall.function.name, argumentos, resultado: retorno });
+      mensagens.push({
+        role: "tool",
+        tool_call_id: toolCall.id,
+        name: toolCall.function.name,
+        content: JSON.stringify(retorno),
+      });
+    }
+  }
+
+  return { resposta: null, pedidoId, chamadas };
+}
+
+/**
+ * Histórico recente da conversa no formato de mensagens do modelo
+ */
+async function montarHistorico(clienteId: number): Promise<Message[]> {
+  const { mensagens } = await getConversa(clienteId);
+  return mensagens
+    .filter(m => m.conteudo.trim() !== "")
+    .slice(-LIMITE_HISTORICO)
+    .map(m => ({
+      role: m.direcao === "entrada" ? "user" as const : "assistant" as const,
+      content: m.conteudo,
+    }));
+}
+
+/**
+ * O assistente fica em silêncio quando um operador respondeu o cliente há
+ * pouco tempo, para não atravessar o atendimento humano
+ */
+async function atendimentoHumanoRecente(clienteId: number, pausaMinutos: number) {
+  const manuais = await db.getMensagens({ clienteId, tipo: "manual" });
+  const limite = Date.now() - pausaMinutos * 60 * 1000;
+  return manuais.some(m => m.criadoEm.getTime() > limite);
+}
+
+async function responderMensagem(mensagem: MensagemRegistrada) {
+  if (mensagem.tipo !== "texto" || mensagem.conteudo.trim() === "") return;
+  // SAIR/VOLTAR já recebem a confirmação do consentimento
+  if (identificarPalavraConsentimento(mensagem.conteudo)) return;
+
+  const config = await db.getConfigAssistente();
+  if (!config?.ativo) return;
+  if (await atendimentoHumanoRecente(mensagem.clienteId, config.pausaAposAtendimentoMinutos)) return;
+
+  const resultado = await executarAssistente({
+    clienteId: mensagem.clienteId,
+    historico: await montarHistorico(mensagem.clienteId),
+  });
+  if (!resultado.resposta) return;
+
+  await enfileirarMensagem({
+    clienteId: mensagem.clienteId,
+    tipo: "automatica",
+    conteudo: resultado.resposta,
+  });
+}
+
+// Atendimento em série por cliente, para responder as mensagens na ordem
+const atendimentos = new Map<number, Promise<void>>();
+
+/**
+ * Passa a responder as mensagens recebidas quando o assistente está ativo
+ */
+export function iniciarAssistente() {
+  onMensagemRegistrada(mensagem => {
+    const anterior = atendimentos.get(mensagem.clienteId) ?? Promise.resolve();
+    const atual = anterior
+      .then(() => responderMensagem(mensagem))
+      .catch(error => console.error(`[Assistente] Erro ao atender cliente #${mensagem.clienteId}:`, error))
+      .finally(() => {
+        if (atendimentos.get(mensagem.clienteId) === atual) {
+          atendimentos.delete(mensagem.clienteId);
+        }
+      });
+    atendimentos.set(mensagem.clienteId, atual);
+  });
+}
@@ -0,0 +1,167 @@
+import { invokeLLM } from "./_core/llm";
+import { transcribeAudio } from "./_core/voiceTranscription";
+import { FORMAS_PAGAMENTO, salvarRascunhoPedido, validarItens } from "./assistente";
+import { onMensagemRegistrada, type MensagemRegistrada } from "./conversas";
+import * as db from "./db";
+import { getProdutosComPrecoCliente } from "./precificacao";
+import { storageGet, storagePut } from "./storage";
+import { baixarMidiaWhatsApp } from "./whatsappProvedor";
+
+const EXTENSOES_AUDIO: Record<string, string> = {
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+};
+
+const SCHEMA_PEDIDO_AUDIO = {
+  name: "pedido_audio",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      itens: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            produtoId: { type: "integer" },
+            quantidade: { type: "integer" },
+          },
+          required: ["produtoId", "quantidade"],
+          additionalProperties: false,
+        },
+      },
+      endereco: { type: ["string", "null"] },
+      formaPagamento: { type: ["string", "null"], enum: [...FORMAS_PAGAMENTO, null] },
+      observacoes: { type: ["string", "null"] },
+    },
+    required: ["itens", "endereco", "formaPagamento", "observacoes"],
+    additionalProperties: false,
+  },
+};
+
+function extensaoAudio(mimeType: string) {
+  return EXTENSOES_AUDIO[mimeType.split(";")[0].trim()] ?? "ogg";
+}
+
+/**
+ * Extrai itens, endereço e pagamento da transcrição usando o catálogo com os
+ * preços do cliente. Sem itens reconhecidos, retorna null.
+ */
+async function interpretarPedido(clienteId: number, transcricao: string) {
+  const produtos = await getProdutosComPrecoCliente(clienteId);
+  const catalogo = produtos.map(p => ({ produtoId: p.id, nome: p.nome, tipo: p.tipo }));
+
+  const resultado = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: "Extraia o pedido de uma revenda de gás e água a partir da transcrição de um áudio de WhatsApp. "
+          + "Use apenas produtos do catálogo; \"gás\" sem outra indicação é o botijão P13. "
+          + "Deixe endereco nulo quando o cliente não disser um endereço novo (por exemplo, \"no endereço de sempre\"). "
+          + "Se o áudio não for um pedido, retorne itens vazio.\n\n"
+          + `Catálogo: ${JSON.stringify(catalogo)}`,
+      },
+      { role: "user", content: transcricao },
+    ],
+    outputSchema: SCHEMA_PEDIDO_AUDIO,
+  });
+
+  const conteudo = resultado.choices?.[0]?.message?.content;
+  const dados = JSON.parse(typeof conteudo === "string" ? conteudo : "{}");
+  if (!Array.isArray(dados.itens) || dados.itens.length === 0) return null;
+
+  const itens = validarItens(dados.itens);
+  for (const item of itens) {
+    if (!produtos.some(p => p.id === item.produtoId)) {
+      throw new Error(`Produto #${item.produtoId} não existe no catálogo`);
+    }
+  }
+
+  return {
+    itens,
+    endereco: typeof dados.endereco === "string" && dados.endereco.trim() ? dados.endereco.trim() : null,
+    formaPagamento: FORMAS_PAGAMENTO.find(forma => forma === dados.formaPagamento),
+    observacoes: typeof dados.observacoes === "string" && dados.observacoes.trim() ? dados.observacoes.trim() : undefined,
+  };
+}
+
+/**
+ * Guarda o áudio no storage, transcreve em português, grava a transcrição na
+ * conversa e, se for um pedido, cria o rascunho para o operador aprovar.
+ * Pode ser chamado de novo para reprocessar um áudio que falhou; sem o
+ * arquivo no storage, ele é baixado de novo do provedor.
+ */
+export async function processarAudio(mensagemId: number, midia?: { dados: Buffer; mimeType: string }) {
+  const mensagem = await db.getMensagemRecebidaById(mensagemId);
+  if (!mensagem || mensagem.tipo !== "audio") {
+    throw new Error("Mensagem de áudio não encontrada");
+  }
+
+  // Depois de aprovado, o rascunho virou pedido: reprocessar criaria outro
+  if (mensagem.pedidoId) {
+    const pedido = await db.getPedidoById(mensagem.pedidoId);
+    if (pedido && pedido.status !== "rascunho") {
+      throw new Error(`O pedido #${pedido.id} deste áudio já foi aprovado e não pode ser refeito`);
+    }
+  }
+
+  try {
+    let audioUrl: string;
+    if (mensagem.midiaChave) {
+      audioUrl = (await storageGet(mensagem.midiaChave)).url;
+    } else {
+      if (!midia && mensagem.midiaReferencia) {
+        midia = await baixarMidiaWhatsApp(mensagem.midiaReferencia);
+      }
+      if (!midia) {
+        throw new Error("Arquivo de áudio não foi recebido do WhatsApp");
+      }
+      const chave = `whatsapp/audios/${mensagem.clienteId}/${mensagem.id}.${extensaoAudio(midia.mimeType)}`;
+      const arquivo = await storagePut(chave, midia.dados, midia.mimeType);
+      await db.updateMensagemRecebida(mensagem.id, { midiaChave: arquivo.key, midiaUrl: arquivo.url });
+      audioUrl = arquivo.url;
+    }
+
+    const transcricao = await transcribeAudio({ audioUrl, language: "pt" });
+    if ("error" in transcricao) {
+      throw new Error(transcricao.details ? `${transcricao.error}: ${transcricao.details}` : transcricao.error);
+    }
+
+    const texto = transcricao.text.trim();
+    await db.updateMensagemRecebida(mensagem.id, { conteudo: texto, statusMidia: "transcrita", erroMidia: null });
+
+    const pedido = texto ? await interpretarPedido(mensagem.clienteId, texto) : null;
+    if (!pedido) {
+      return { transcricao: texto, pedidoId: null };
+    }
+
+    const cliente = await db.getClienteById(mensagem.clienteId);
+    if (!cliente) {
+      throw new Error("Cliente não encontrado");
+    }
+
+    const pedidoId = await salvarRascunhoPedido(cliente, {
+      ...pedido,
+      endereco: pedido.endereco ?? cliente.endereco,
+    });
+    await db.updateMensagemRecebida(mensagem.id, { pedidoId });
+
+    return { transcricao: texto, pedidoId };
+  } catch (error: any) {
+    await db.updateMensagemRecebida(mensagem.id, { statusMidia: "erro", erroMidia: error?.message || String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Passa a processar os áudios recebidos pelo WhatsApp
+ */
+export function iniciarAudios() {
+  onMensagemRegistrada(async (mensagem: MensagemRegistrada) => {
+    if (mensagem.tipo !== "audio") return;
+    await processarAudio(mensagem.mensagemId, mensagem.midia);
+  });
+}
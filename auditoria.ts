@@ -0,0 +1,174 @@
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+
+export const ENTIDADES_AUDITADAS = [
+  "vendedores",
+  "clientes",
+  "produtos",
+  "tabelasPreco",
+  "depositos",
+  "estoque",
+  "fornecedores",
+  "compras",
+  "vasilhames",
+  "vendas",
+  "despesas",
+  "campanhas",
+  "configWhatsapp",
+] as const;
+
+export type EntidadeAuditada = (typeof ENTIDADES_AUDITADAS)[number];
+
+type AcaoAuditoria = "create" | "update" | "delete";
+
+type ContextoAuditoria = Pick<TrpcContext, "req" | "user">;
+
+// Registros que podem ser recarregados pelo id para comparar antes e depois
+const CARREGADORES: Partial<Record<EntidadeAuditada, (id: number) => Promise<unknown>>> = {
+  vendedores: db.getVendedorById,
+  clientes: db.getClienteById,
+  produtos: db.getProdutoById,
+  tabelasPreco: db.getTabelaPrecoById,
+  depositos: db.getDepositoById,
+  fornecedores: db.getFornecedorById,
+  compras: db.getCompraById,
+  vendas: db.getVendaById,
+  despesas: db.getDespesaById,
+  campanhas: db.getCampanhaById,
+};
+
+// Nunca gravados em claro no log
+const CAMPOS_SENSIVEIS = ["authToken"];
+// Mudam sozinhos a cada gravação e só poluiriam a diferença
+const CAMPOS_IGNORADOS = ["atualizadoEm"];
+
+type Registro = Record<string, unknown>;
+
+/**
+ * Converte para o formato gravado em JSON (datas viram texto) e mascara
+ * campos sensíveis
+ */
+function normalizar(valor: unknown): Registro | null {
+  if (valor === undefined || valor === null) return null;
+
+  const registro = JSON.parse(JSON.stringify(valor)) as Registro;
+  for (const campo of CAMPOS_SENSIVEIS) {
+    if (registro[campo]) registro[campo] = "***";
+  }
+  return registro;
+}
+
+function calcularAlteracoes(antes: Registro | null, depois: Registro | null) {
+  const alteracoes: Record<string, { antes: unknown; depois: unknown }> = {};
+  const campos = new Set([...Object.keys(antes ?? {}), ...Object.keys(depois ?? {})]);
+
+  for (const campo of campos) {
+    if (CAMPOS_IGNORADOS.includes(campo)) continue;
+    const valorAntes = antes?.[campo] ?? null;
+    const valorDepois = depois?.[campo] ?? null;
+    if (JSON.stringify(valorAntes) !== JSON.stringify(valorDepois)) {
+      alteracoes[campo] = { antes: valorAntes, depois: valorDepois };
+    }
+  }
+
+  return alteracoes;
+}
+
+function ipRequisicao(req: ContextoAuditoria["req"]) {
+  const encaminhado = req.headers["x-forwarded-for"];
+  const primeiro = (Array.isArray(encaminhado) ? encaminhado[0] : encaminhado)?.split(",")[0].trim();
+  return primeiro || req.socket?.remoteAddress || null;
+}
+
+/**
+ * Grava o registro de auditoria. Falhas são só logadas: a mutação já foi
+ * aplicada e não deve ser reportada como erro ao usuário.
+ */
+export async function registrarAuditoria(ctx: ContextoAuditoria, registro: {
+  entidade: EntidadeAuditada;
+  entidadeId?: number | null;
+  acao: AcaoAuditoria;
+  descricao?: string;
+  antes?: unknown;
+  depois?: unknown;
+}) {
+  const antes = normalizar(registro.antes);
+  const depois = normalizar(registro.depois);
+
+  try {
+    await db.createRegistroAuditoria({
+      usuarioId: ctx.user?.id ?? null,
+      usuarioNome: ctx.user?.name ?? null,
+      entidade: registro.entidade,
+      entidadeId: registro.entidadeId ?? null,
+      acao: registro.acao,
+      descricao: registro.descricao,
+      antes,
+      depois,
+      alteracoes: calcularAlteracoes(antes, depois),
+      ip: ipRequisicao(ctx.req),
+    });
+  } catch (error) {
+    console.error(`[Auditoria] Erro ao registrar ${registro.acao} em ${registro.entidade}:`, error);
+  }
+}
+
+async function carregar(entidade: EntidadeAuditada, id: number) {
+  const carregador = CARREGADORES[entidade];
+  if (!carregador) {
+    throw new Error(`Entidade ${entidade} não pode ser recarregada para auditoria`);
+  }
+  return await carregador(id);
+}
+
+/**
+ * Recarrega o registro depois da mutação. Ela já foi aplicada, então uma
+ * falha aqui só é logada e a auditoria fica sem o estado final.
+ */
+async function carregarAposMutacao(entidade: EntidadeAuditada, id: number) {
+  try {
+    return await carregar(entidade, id);
+  } catch (error) {
+    console.error(`[Auditoria] Erro ao recarregar ${entidade} #${id}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Registra a criação recarregando o registro recém-gravado
+ */
+export async function auditarCriacao(ctx: ContextoAuditoria, entidade: EntidadeAuditada, id: number, descricao?: string) {
+  await registrarAuditoria(ctx, {
+    entidade,
+    entidadeId: id,
+    acao: "create",
+    descricao,
+    depois: await carregarAposMutacao(entidade, id),
+  });
+}
+
+/**
+ * Executa a alteração ou exclusão guardando o registro antes e depois dela
+ */
+export async function auditarAlteracao<T>(
+  ctx: ContextoAuditoria,
+  entidade: EntidadeAuditada,
+  id: number,
+  acao: "update" | "delete",
+  executar: () => Promise<T>,
+  descricao?: string
+) {
+  const antes = await carregar(entidade, id);
+  const resultado = await executar();
+
+  await registrarAuditoria(ctx, {
+    entidade,
+    entidadeId: id,
+    acao,
+    descricao,
+    antes,
+    depois: await carregarAposMutacao(entidade, id),
+  });
+
+  return resultado;
+}
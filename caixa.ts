@@ -0,0 +1,125 @@
+import type { Caixa } from "./schema";
+import * as db from "./db";
+
+export type ResumoCaixa = {
+  caixaId: number;
+  vendedorId: number;
+  abertoEm: Date;
+  ate: Date;
+  valorAbertura: number;
+  vendasPorFormaPagamento: { formaPagamento: string; quantidade: number; total: number }[];
+  totalVendas: number;
+  vendasDinheiro: number;
+  despesas: { id: number; descricao: string; valor: number }[];
+  totalDespesas: number;
+  totalSangrias: number;
+  totalSuprimentos: number;
+  valorEsperado: number;
+};
+
+function arredondar(valor: number) {
+  return Math.round(valor * 100) / 100;
+}
+
+/**
+ * Soma as vendas, despesas e movimentações do vendedor desde a abertura do
+ * caixa. O dinheiro esperado na gaveta é a abertura mais as vendas em
+ * dinheiro e suprimentos, menos sangrias e despesas pagas no turno.
+ */
+export async function calcularResumoCaixa(caixa: Caixa, ate = new Date()): Promise<ResumoCaixa> {
+  const periodo = { vendedorId: caixa.vendedorId, dataInicio: caixa.abertoEm, dataFim: ate };
+  const vendas = await db.getVendas(periodo);
+  const despesas = await db.getDespesas(periodo);
+  const movimentacoes = await db.getMovimentacoesCaixa(caixa.id);
+
+  const porForma = new Map<string, { formaPagamento: string; quantidade: number; total: number }>();
+  for (const venda of vendas) {
+    const atual = porForma.get(venda.formaPagamento) ?? { formaPagamento: venda.formaPagamento, quantidade: 0, total: 0 };
+    atual.quantidade += 1;
+    atual.total = arredondar(atual.total + venda.total);
+    porForma.set(venda.formaPagamento, atual);
+  }
+
+  const totalVendas = arredondar(vendas.reduce((sum, v) => sum + v.total, 0));
+  const vendasDinheiro = porForma.get("dinheiro")?.total ?? 0;
+  const totalDespesas = arredondar(despesas.reduce((sum, d) => sum + d.valor, 0));
+  const totalSangrias = arredondar(movimentacoes.filter(m => m.tipo === "sangria").reduce((sum, m) => sum + m.valor, 0));
+  const totalSuprimentos = arredondar(movimentacoes.filter(m => m.tipo === "suprimento").reduce((sum, m) => sum + m.valor, 0));
+
+  return {
+    caixaId: caixa.id,
+    vendedorId: caixa.vendedorId,
+    abertoEm: caixa.abertoEm,
+    ate,
+    valorAbertura: caixa.valorAbertura,
+    vendasPorFormaPagamento: Array.from(porForma.values()),
+    totalVendas,
+    vendasDinheiro,
+    despesas: despesas.map(d => ({ id: d.id, descricao: d.descricao, valor: d.valor })),
+    totalDespesas,
+    totalSangrias,
+    totalSuprimentos,
+    valorEsperado: arredondar(caixa.valorAbertura + vendasDinheiro + totalSuprimentos - totalSangrias - totalDespesas),
+  };
+}
+
+/**
+ * Fecha o caixa gravando o resumo calculado, o valor contado e a diferença
+ */
+export async function fecharCaixa(params: {
+  caixaId: number;
+  valorContado: number;
+  usuarioId?: string;
+  observacoes?: string;
+}) {
+  const caixa = await db.getCaixaById(params.caixaId);
+  if (!caixa) {
+    throw new Error("Caixa não encontrado");
+  }
+  if (caixa.status !== "aberto") {
+    throw new Error("Caixa já está fechado");
+  }
+
+  const fechadoEm = new Date();
+  const resumo = await calcularResumoCaixa(caixa, fechadoEm);
+  const diferenca = arredondar(params.valorContado - resumo.valorEsperado);
+
+  await db.fecharCaixa(caixa.id, {
+    fechadoEm,
+    valorEsperado: resumo.valorEsperado,
+    valorContado: params.valorContado,
+    diferenca,
+    resumo,
+    usuarioFechamentoId: params.usuarioId,
+    observacoes: params.observacoes ?? caixa.observacoes ?? undefined,
+  });
+
+  return { ...resumo, valorContado: params.valorContado, diferenca };
+}
+
+/**
+ * Relatório do caixa: o fechado devolve o resumo gravado no fechamento; o
+ * aberto é calculado na hora
+ */
+export async function getRelatorioCaixa(caixaId: number) {
+  const caixa = await db.getCaixaById(caixaId);
+  if (!caixa) {
+    throw new Error("Caixa não encontrado");
+  }
+
+  const movimentacoes = await db.getMovimentacoesCaixa(caixa.id);
+
+  if (caixa.status === "fechado") {
+    return {
+      ...caixa,
+      resumo: caixa.resumo as ResumoCaixa,
+      movimentacoes,
+    };
+  }
+
+  return {
+    ...caixa,
+    resumo: await calcularResumoCaixa(caixa),
+    movimentacoes,
+  };
+}
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import * as db from "./db";
+import { enfileirarMensagem, processarFilaEmSegundoPlano } from "./filaMensagens";
+import { renderizarMensagem, validarModelo } from "./modelosMensagem";
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Filtros estruturados da campanha, gravados como JSON em campanhas.filtros.
+ * Dias sem comprar são relativos ao momento do disparo.
+ */
+export const filtrosCampanhaSchema = z.object({
+  regioes: z.array(z.string()).optional(),
+  bairros: z.array(z.string()).optional(),
+  diasSemComprarMin: z.number().int().min(0).optional(),
+  diasSemComprarMax: z.number().int().min(0).optional(),
+  incluirSemCompras: z.boolean().optional(),
+  produtoIds: z.array(z.number()).optional(),
+  produtoTipos: z.array(z.enum(["gas_p13", "agua_mineral", "agua_dessalinizada"])).optional(),
+});
+
+export type FiltrosCampanha = z.infer<typeof filtrosCampanhaSchema>;
+
+export function parseFiltrosCampanha(filtros: string | null | undefined): FiltrosCampanha {
+  if (!filtros || filtros.trim() === "") return {};
+
+  let json: unknown;
+  try {
+    json = JSON.parse(filtros);
+  } catch {
+    throw new Error("Filtros da campanha em texto livre não são suportados; cadastre filtros estruturados");
+  }
+
+  const resultado = filtrosCampanhaSchema.safeParse(json);
+  if (!resultado.success) {
+    throw new Error("Filtros da campanha inválidos");
+  }
+  return resultado.data;
+}
+
+export async function resolverAudiencia(filtros: FiltrosCampanha, agora = new Date()) {
+  return await db.getClientesAudiencia({
+    regioes: filtros.regioes,
+    bairros: filtros.bairros,
+    produtoIds: filtros.produtoIds,
+    produtoTipos: filtros.produtoTipos,
+    incluirSemCompras: filtros.incluirSemCompras,
+    ultimaCompraAntes: filtros.diasSemComprarMin !== undefined
+      ? new Date(agora.getTime() - filtros.diasSemComprarMin * DIA_MS)
+      : undefined,
+    ultimaCompraDepois: filtros.diasSemComprarMax !== undefined
+      ? new Date(agora.getTime() - filtros.diasSemComprarMax * DIA_MS)
+      : undefined,
+  });
+}
+
+/**
+ * Coloca na fila a mensagem de cada cliente da audiência que ainda não a
+ * recebeu. Clientes já vinculados à campanha são pulados, então um disparo
+ * interrompido pode ser repetido sem duplicar mensagens.
+ */
+async function enfileirarAudiencia(
+  campanha: { id: number; mensagem: string; tipo: string },
+  audiencia: Awaited<ReturnType<typeof resolverAudiencia>>,
+  usuarioId?: string
+) {
+  const tipo = campanha.tipo === "data_especial" ? "data_especial" : "promocao";
+  const jaEnfileirados = new Set((await db.getMensagensCampanha(campanha.id)).map(m => m.clienteId));
+
+  let enfileiradas = 0;
+  let falhas = 0;
+  for (const cliente of audiencia) {
+    if (jaEnfileirados.has(cliente.id)) continue;
+
+    try {
+      const { mensagem } = await renderizarMensagem(campanha.mensagem, cliente.id);
+      // totalEnviadas é incrementado pela fila a cada entrega
+      await enfileirarMensagem({
+        clienteId: cliente.id,
+        tipo,
+        conteudo: mensagem,
+        usuarioId,
+      }, { campanhaId: campanha.id, processar: false });
+      enfileiradas++;
+    } catch (error) {
+      falhas++;
+      console.error(`[Campanhas] Erro ao enfileirar campanha #${campanha.id} para cliente #${cliente.id}:`, error);
+    }
+  }
+
+  return { enfileiradas, jaEnfileiradas: jaEnfileirados.size, falhas };
+}
+
+/**
+ * Dispara a campanha: resolve a audiência e coloca todas as mensagens na
+ * fila durável antes de responder. Só então a campanha passa a enviada; se
+ * o processo cair no meio, ela continua em rascunho ou agendada e o disparo
+ * pode ser repetido. O andamento vem da fila (db.getProgressoCampanha).
+ */
+export async function dispararCampanha(campanhaId: number, usuarioId?: string) {
+  const campanha = await db.getCampanhaById(campanhaId);
+  if (!campanha) {
+    throw new Error("Campanha não encontrada");
+  }
+  if (campanha.status !== "rascunho" && campanha.status !== "agendada") {
+    throw new Error("Campanha já enviada ou cancelada");
+  }
+
+  // Campanhas antigas podem ter placeholders que não existem mais
+  validarModelo(campanha.mensagem);
+  const audiencia = await resolverAudiencia(parseFiltrosCampanha(campanha.filtros));
+
+  const resultado = await enfileirarAudiencia(campanha, audiencia, usuarioId);
+  const totalClientes = resultado.enfileiradas + resultado.jaEnfileiradas;
+
+  const concluida = await db.concluirEnfileiramentoCampanha(campanha.id, totalClientes);
+  if (!concluida) {
+    console.warn(`[Campanhas] Campanha #${campanha.id} mudou de status durante o disparo`);
+  }
+
+  processarFilaEmSegundoPlano();
+  console.log(`[Campanhas] Campanha #${campanha.id} enfileirada para ${totalClientes} clientes`);
+
+  return { campanhaId: campanha.id, totalClientes, falhas: resultado.falhas };
+}
@@ -0,0 +1,107 @@
+import * as db from "./db";
+import { enfileirarMensagem } from "./filaMensagens";
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+export type FaixaAging = "a_vencer" | "vencido_0_30" | "vencido_31_60" | "vencido_60_mais";
+
+type TotaisAging = Record<FaixaAging, number> & { total: number };
+
+function totaisZerados(): TotaisAging {
+  return { a_vencer: 0, vencido_0_30: 0, vencido_31_60: 0, vencido_60_mais: 0, total: 0 };
+}
+
+export function classificarVencimento(vencimento: Date, hoje = new Date()): FaixaAging {
+  const diasVencido = Math.floor((hoje.getTime() - vencimento.getTime()) / DIA_MS);
+  if (diasVencido < 0) return "a_vencer";
+  if (diasVencido <= 30) return "vencido_0_30";
+  if (diasVencido <= 60) return "vencido_31_60";
+  return "vencido_60_mais";
+}
+
+function formatarValor(valor: number) {
+  return valor.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+/**
+ * Saldo em aberto por cliente distribuído nas faixas de atraso
+ */
+export async function getAgingContasReceber(clienteId?: number) {
+  const contas = await db.getContasReceber({ clienteId, status: "aberta" });
+  const hoje = new Date();
+  const porCliente = new Map<number, { clienteId: number; clienteNome: string | null; clienteTelefone: string | null } & TotaisAging>();
+  const totais = totaisZerados();
+
+  for (const conta of contas) {
+    const faixa = classificarVencimento(conta.vencimento, hoje);
+    const atual = porCliente.get(conta.clienteId) ?? {
+      clienteId: conta.clienteId,
+      clienteNome: conta.clienteNome,
+      clienteTelefone: conta.clienteTelefone,
+      ...totaisZerados(),
+    };
+    atual[faixa] += conta.saldo;
+    atual.total += conta.saldo;
+    totais[faixa] += conta.saldo;
+    totais.total += conta.saldo;
+    porCliente.set(conta.clienteId, atual);
+  }
+
+  return {
+    clientes: Array.from(porCliente.values()).sort((a, b) => b.total - a.total),
+    totais,
+  };
+}
+
+/**
+ * Coloca na fila de envio um lembrete de cobrança pelo WhatsApp para as
+ * contas vencidas, um por cliente, pulando quem já foi lembrado no intervalo
+ * mínimo
+ */
+export async function enviarLembretesVencidos(params: {
+  clienteIds?: number[];
+  intervaloMinimoDias: number;
+  usuarioId?: string;
+}) {
+  const vencidas = await db.getContasReceber({ vencidas: true });
+  const limite = Date.now() - params.intervaloMinimoDias * DIA_MS;
+
+  const porCliente = new Map<number, typeof vencidas>();
+  for (const conta of vencidas) {
+    if (params.clienteIds && !params.clienteIds.includes(conta.clienteId)) continue;
+    if (conta.ultimoLembreteEm && conta.ultimoLembreteEm.getTime() > limite) continue;
+    const lista = porCliente.get(conta.clienteId) ?? [];
+    lista.push(conta);
+    porCliente.set(conta.clienteId, lista);
+  }
+
+  let enviados = 0;
+  const erros: { clienteId: number; erro: string }[] = [];
+
+  for (const [clienteId, contas] of Array.from(porCliente.entries())) {
+    const telefone = contas[0].clienteTelefone;
+    if (!telefone) {
+      erros.push({ clienteId, erro: "Cliente não possui telefone cadastrado" });
+      continue;
+    }
+
+    const saldo = contas.reduce((sum, conta) => sum + conta.saldo, 0);
+    const maisAntigo = contas[0].vencimento.toLocaleDateString("pt-BR");
+    const conteudo = `Olá, ${contas[0].clienteNome ?? "cliente"}! Consta em aberto o valor de ${formatarValor(saldo)}, `
+      + `com vencimento desde ${maisAntigo}. Se já realizou o pagamento, por favor desconsidere esta mensagem.`;
+
+    await enfileirarMensagem({
+      clienteId,
+      tipo: "automatica",
+      conteudo,
+      usuarioId: params.usuarioId,
+    });
+
+    for (const conta of contas) {
+      await db.marcarLembreteContaReceber(conta.id);
+    }
+    enviados++;
+  }
+
+  return { enviados, erros };
+}
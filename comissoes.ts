@@ -0,0 +1,164 @@
+import * as db from "./db";
+
+// Despesas com esta categoria ligadas ao vendedor são adiantamentos de comissão
+export const CATEGORIA_ADIANTAMENTO = "adiantamento";
+
+type Regra = Awaited<ReturnType<typeof db.getRegrasComissao>>[number];
+
+export type LinhaComissao = {
+  vendaId: number;
+  produtoId: number;
+  produtoNome: string | null;
+  produtoTipo: string | null;
+  receita: number;
+  lucro: number;
+  base: "venda" | "lucro";
+  percentual: number;
+  regraId: number | null;
+  valor: number;
+};
+
+export type CalculoComissao = {
+  vendedorId: number;
+  vendedorNome: string;
+  periodoInicio: Date;
+  periodoFim: Date;
+  quantidadeVendas: number;
+  totalVendas: number;
+  totalLucro: number;
+  valorComissao: number;
+  adiantamentos: { id: number; descricao: string; valor: number; data: Date }[];
+  totalAdiantamentos: number;
+  valorLiquido: number;
+  linhas: LinhaComissao[];
+};
+
+function arredondar(valor: number) {
+  return Math.round(valor * 100) / 100;
+}
+
+/**
+ * Escolhe a regra mais específica: vendedor e tipo de produto, só vendedor,
+ * só tipo de produto e por fim a regra geral. Sem regra, vale o percentual
+ * de comissão do cadastro do vendedor sobre o valor vendido.
+ */
+function escolherRegra(regras: Regra[], vendedorId: number, produtoTipo: string | null) {
+  const pontuar = (regra: Regra) => {
+    if (regra.vendedorId !== null && regra.vendedorId !== vendedorId) return -1;
+    if (regra.produtoTipo !== null && regra.produtoTipo !== produtoTipo) return -1;
+    return (regra.vendedorId !== null ? 2 : 0) + (regra.produtoTipo !== null ? 1 : 0);
+  };
+
+  let escolhida: Regra | undefined;
+  let melhor = -1;
+  for (const regra of regras) {
+    const pontos = pontuar(regra);
+    if (pontos > melhor) {
+      escolhida = regra;
+      melhor = pontos;
+    }
+  }
+  return escolhida;
+}
+
+/**
+ * Calcula a comissão de um vendedor no período item a item. O desconto do
+ * pedido e o lucro gravado na venda são rateados entre os itens pelo subtotal.
+ * O fim do período é exclusivo, para que extratos seguidos (1 a 15 e 15 a 30)
+ * não contem a mesma venda.
+ */
+export async function calcularComissao(vendedorId: number, periodoInicio: Date, periodoFim: Date): Promise<CalculoComissao> {
+  const vendedor = await db.getVendedorById(vendedorId);
+  if (!vendedor) {
+    throw new Error("Vendedor não encontrado");
+  }
+
+  // Os filtros de data das consultas são inclusivos
+  const ultimoInstante = new Date(periodoFim.getTime() - 1);
+
+  const regras = await db.getRegrasComissao();
+  const vendas = await db.getVendas({ vendedorId, dataInicio: periodoInicio, dataFim: ultimoInstante });
+  const itens = await db.getItensVendas(vendas.map(venda => venda.id));
+
+  const linhas: LinhaComissao[] = [];
+  for (const venda of vendas) {
+    const itensVenda = itens.filter(item => item.vendaId === venda.id);
+    const somaSubtotais = itensVenda.reduce((sum, item) => sum + item.subtotal, 0);
+
+    for (const item of itensVenda) {
+      const proporcao = somaSubtotais > 0 ? item.subtotal / somaSubtotais : 0;
+      const receita = arredondar(venda.total * proporcao);
+      const lucro = arredondar(venda.lucro * proporcao);
+      const regra = escolherRegra(regras, vendedorId, item.produtoTipo);
+      const base = regra?.base ?? "venda";
+      const percentual = regra?.percentual ?? vendedor.comissao;
+      const valorBase = base === "lucro" ? Math.max(lucro, 0) : receita;
+
+      linhas.push({
+        vendaId: venda.id,
+        produtoId: item.produtoId,
+        produtoNome: item.produtoNome,
+        produtoTipo: item.produtoTipo,
+        receita,
+        lucro,
+        base,
+        percentual,
+        regraId: regra?.id ?? null,
+        valor: arredondar(valorBase * percentual / 100),
+      });
+    }
+  }
+
+  const adiantamentos = (await db.getDespesas({
+    vendedorId,
+    categoria: CATEGORIA_ADIANTAMENTO,
+    dataInicio: periodoInicio,
+    dataFim: ultimoInstante,
+  })).map(despesa => ({ id: despesa.id, descricao: despesa.descricao, valor: despesa.valor, data: despesa.data }));
+
+  const valorComissao = arredondar(linhas.reduce((sum, linha) => sum + linha.valor, 0));
+  const totalAdiantamentos = arredondar(adiantamentos.reduce((sum, a) => sum + a.valor, 0));
+
+  return {
+    vendedorId,
+    vendedorNome: vendedor.nome,
+    periodoInicio,
+    periodoFim,
+    quantidadeVendas: vendas.length,
+    totalVendas: arredondar(vendas.reduce((sum, venda) => sum + venda.total, 0)),
+    totalLucro: arredondar(vendas.reduce((sum, venda) => sum + venda.lucro, 0)),
+    valorComissao,
+    adiantamentos,
+    totalAdiantamentos,
+    valorLiquido: arredondar(valorComissao - totalAdiantamentos),
+    linhas,
+  };
+}
+
+/**
+ * Fecha o extrato do período com o cálculo completo gravado
+ */
+export async function fecharExtratoComissao(vendedorId: number, periodoInicio: Date, periodoFim: Date, usuarioId?: string) {
+  if (periodoFim <= periodoInicio) {
+    throw new Error("Período inválido");
+  }
+  if (periodoFim > new Date()) {
+    throw new Error("Só é possível fechar períodos já encerrados");
+  }
+
+  const calculo = await calcularComissao(vendedorId, periodoInicio, periodoFim);
+
+  const extratoId = await db.createExtratoComissao({
+    vendedorId,
+    periodoInicio,
+    periodoFim,
+    totalVendas: calculo.totalVendas,
+    valorComissao: calculo.valorComissao,
+    totalAdiantamentos: calculo.totalAdiantamentos,
+    valorLiquido: calculo.valorLiquido,
+    detalhes: calculo,
+    usuarioId,
+  });
+
+  return { extratoId, ...calculo };
+}
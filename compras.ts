@@ -0,0 +1,92 @@
+import * as db from "./db";
+
+export type ItemCompraSolicitado = {
+  produtoId: number;
+  quantidade: number;
+  custoUnitario: number;
+};
+
+function arredondar(valor: number) {
+  return Math.round(valor * 100) / 100;
+}
+
+/**
+ * Documento do fornecedor só com dígitos; vazio vira null
+ */
+export function normalizarDocumento(documento?: string | null) {
+  const digitos = documento?.replace(/\D/g, "") ?? "";
+  return digitos || null;
+}
+
+/**
+ * Rateia o frete entre os itens na proporção do valor de cada um. A sobra
+ * do arredondamento fica no último item, para que a soma bata com a nota.
+ */
+function ratearFrete(itens: { valor: number }[], frete: number) {
+  const valorProdutos = itens.reduce((sum, item) => sum + item.valor, 0);
+  if (frete === 0 || valorProdutos === 0) return itens.map(() => 0);
+
+  const rateio = itens.map(item => arredondar(frete * item.valor / valorProdutos));
+  const sobra = arredondar(frete - rateio.reduce((sum, valor) => sum + valor, 0));
+  rateio[rateio.length - 1] = arredondar(rateio[rateio.length - 1] + sobra);
+  return rateio;
+}
+
+/**
+ * Valida os itens e monta a compra com o frete rateado e o custo final de
+ * cada produto, pronta para db.registrarCompra
+ */
+export async function prepararCompra(params: {
+  fornecedorId: number;
+  depositoId?: number;
+  numeroNotaFiscal: string;
+  dataEmissao: Date;
+  frete?: number;
+  // Sem vencimento, a compra é paga à vista
+  vencimento?: Date;
+  observacoes?: string;
+  itens: ItemCompraSolicitado[];
+  usuarioId?: string;
+}) {
+  const produtoIds = params.itens.map(item => item.produtoId);
+  if (new Set(produtoIds).size !== produtoIds.length) {
+    throw new Error("Produto repetido na compra: informe a quantidade total em um único item");
+  }
+
+  for (const item of params.itens) {
+    const produto = await db.getProdutoById(item.produtoId);
+    if (!produto) {
+      throw new Error(`Produto ${item.produtoId} não encontrado`);
+    }
+  }
+
+  const frete = arredondar(params.frete ?? 0);
+  const valores = params.itens.map(item => ({ valor: arredondar(item.custoUnitario * item.quantidade) }));
+  const rateio = ratearFrete(valores, frete);
+
+  const itens: db.ItemCompraNovo[] = params.itens.map((item, i) => ({
+    produtoId: item.produtoId,
+    quantidade: item.quantidade,
+    custoUnitario: item.custoUnitario,
+    freteRateado: rateio[i],
+    custoFinal: arredondar(item.custoUnitario + rateio[i] / item.quantidade),
+  }));
+
+  const valorProdutos = arredondar(valores.reduce((sum, item) => sum + item.valor, 0));
+
+  const compra: db.CompraNova = {
+    fornecedorId: params.fornecedorId,
+    depositoId: params.depositoId,
+    numeroNotaFiscal: params.numeroNotaFiscal.trim(),
+    dataEmissao: params.dataEmissao,
+    valorProdutos,
+    frete,
+    valorTotal: arredondar(valorProdutos + frete),
+    vencimento: params.vencimento ?? params.dataEmissao,
+    aPrazo: params.vencimento !== undefined,
+    observacoes: params.observacoes,
+    usuarioId: params.usuarioId,
+  };
+
+  return { compra, itens };
+}
@@ -0,0 +1,90 @@
+import type { HistoricoConsentimento } from "./schema";
+import { onMensagemRegistrada, type MensagemRegistrada } from "./conversas";
+import * as db from "./db";
+import { enfileirarMensagem } from "./filaMensagens";
+
+// Mensagens que, sozinhas, descadastram ou recadastram o cliente do marketing
+const PALAVRAS_DESCADASTRO = ["SAIR", "PARAR", "PARE", "CANCELAR", "DESCADASTRAR", "STOP"];
+const PALAVRAS_RECADASTRO = ["VOLTAR", "ASSINAR"];
+
+const CONFIRMACAO_DESCADASTRO = "Pronto! Você não vai mais receber promoções por aqui. "
+  + "Pedidos e avisos de entrega continuam normalmente. Para voltar a receber, responda VOLTAR.";
+const CONFIRMACAO_RECADASTRO = "Tudo certo! Você voltará a receber nossas promoções. Para sair, responda SAIR.";
+
+/**
+ * Identifica a palavra-chave de consentimento. Só vale a mensagem inteira
+ * (ignorando acentos, caixa e pontuação), para que "vou sair" não descadastre.
+ */
+export function identificarPalavraConsentimento(conteudo: string): "descadastro" | "recadastro" | null {
+  const normalizado = conteudo
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z]/g, "");
+
+  if (PALAVRAS_DESCADASTRO.includes(normalizado)) return "descadastro";
+  if (PALAVRAS_RECADASTRO.includes(normalizado)) return "recadastro";
+  return null;
+}
+
+async function processarPalavraConsentimento(mensagem: MensagemRegistrada) {
+  if (mensagem.tipo !== "texto") return;
+
+  const palavra = identificarPalavraConsentimento(mensagem.conteudo);
+  if (!palavra) return;
+
+  await db.registrarConsentimento({
+    clienteId: mensagem.clienteId,
+    consentido: palavra === "recadastro",
+    origem: "whatsapp",
+    detalhe: `Mensagem recebida: "${mensagem.conteudo.trim()}"`,
+    mensagemRecebidaId: mensagem.mensagemId,
+  });
+
+  // A confirmação é transacional e chega mesmo ao cliente descadastrado
+  await enfileirarMensagem({
+    clienteId: mensagem.clienteId,
+    tipo: "automatica",
+    conteudo: palavra === "descadastro" ? CONFIRMACAO_DESCADASTRO : CONFIRMACAO_RECADASTRO,
+  }, { marketing: false });
+}
+
+function escaparCsv(valor: unknown) {
+  const texto = valor === null || valor === undefined ? "" : valor instanceof Date ? valor.toISOString() : String(valor);
+  return /[",\n;]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+/**
+ * Histórico de consentimento do cliente em CSV, para atender pedidos do
+ * titular e fiscalização
+ */
+export async function exportarHistoricoConsentimento(clienteId: number) {
+  const cliente = await db.getClienteById(clienteId);
+  if (!cliente) {
+    throw new Error("Cliente não encontrado");
+  }
+
+  const historico = await db.getHistoricoConsentimento(clienteId);
+  const colunas: (keyof HistoricoConsentimento)[] = [
+    "criadoEm", "consentido", "origem", "detalhe", "mensagemRecebidaId", "usuarioId",
+  ];
+
+  const linhas = [
+    ["clienteId", "clienteNome", "clienteTelefone", ...colunas].join(","),
+    ...historico.map(registro => [
+      cliente.id, cliente.nome, cliente.telefone, ...colunas.map(coluna => registro[coluna]),
+    ].map(escaparCsv).join(",")),
+  ];
+
+  return {
+    nomeArquivo: `consentimento-cliente-${cliente.id}.csv`,
+    conteudo: linhas.join("\n"),
+  };
+}
+
+/**
+ * Passa a tratar SAIR/PARAR e VOLTAR nas mensagens recebidas
+ */
+export function iniciarConsentimento() {
+  onMensagemRegistrada(processarPalavraConsentimento);
+}
@@ -0,0 +1,154 @@
+import * as db from "./db";
+import { onMensagemRecebida, type MensagemRecebidaWhatsApp } from "./whatsappEventos";
+
+// Marca dos clientes criados automaticamente a partir de uma mensagem recebida
+export const OBSERVACAO_LEAD_WHATSAPP = "Lead criado a partir de mensagem recebida no WhatsApp";
+
+/**
+ * Telefone só com dígitos, sem o código do país: DDD + número
+ */
+export function normalizarTelefone(telefone: string) {
+  const digitos = telefone.replace(/\D/g, "");
+  return digitos.length >= 12 && digitos.startsWith("55") ? digitos.slice(2) : digitos;
+}
+
+/**
+ * Compara dois telefones ignorando formatação e o nono dígito, que o
+ * WhatsApp às vezes omite em números antigos
+ */
+export function telefonesEquivalentes(a: string, b: string) {
+  const x = normalizarTelefone(a);
+  const y = normalizarTelefone(b);
+  if (x === y) return true;
+  if (x.length < 10 || y.length < 10) return false;
+  return x.slice(0, 2) === y.slice(0, 2) && x.slice(-8) === y.slice(-8);
+}
+
+/**
+ * Cliente dono do telefone; sem cadastro, cria um lead com o nome do contato
+ */
+export async function encontrarOuCriarCliente(telefone: string, nomeContato?: string) {
+  const local = normalizarTelefone(telefone);
+  const candidatos = await db.getClientesPorSufixoTelefone(local.slice(-8));
+  const cliente = candidatos.find(c => telefonesEquivalentes(c.telefone, local));
+  if (cliente) {
+    return { clienteId: cliente.id, novoCliente: false };
+  }
+
+  const result = await db.createCliente({
+    nome: nomeContato?.trim() || local,
+    telefone: local,
+    observacoes: OBSERVACAO_LEAD_WHATSAPP,
+  });
+  return { clienteId: result[0].insertId, novoCliente: true };
+}
+
+/**
+ * Grava a mensagem recebida na conversa do cliente. Mensagens repetidas pelo
+ * provedor são ignoradas.
+ */
+export async function receberMensagem(mensagem: MensagemRecebidaWhatsApp) {
+  const { clienteId, novoCliente } = await encontrarOuCriarCliente(mensagem.telefone, mensagem.nomeContato);
+
+  const mensagemId = await db.createMensagemRecebida({
+    clienteId,
+    telefone: normalizarTelefone(mensagem.telefone),
+    nomeContato: mensagem.nomeContato,
+    provedorMensagemId: mensagem.provedorMensagemId,
+    tipo: mensagem.tipo,
+    conteudo: mensagem.conteudo,
+    midiaTipo: mensagem.midia?.mimeType,
+    midiaReferencia: mensagem.midiaReferencia,
+    statusMidia: mensagem.tipo === "audio" ? "pendente" : undefined,
+    recebidaEm: mensagem.recebidaEm,
+  });
+
+  return { clienteId, novoCliente, mensagemId };
+}
+
+/**
+ * Conversa do cliente com as mensagens enviadas e recebidas em ordem cronológica
+ */
+export async function getConversa(clienteId: number) {
+  const cliente = await db.getClienteById(clienteId);
+  if (!cliente) {
+    throw new Error("Cliente não encontrado");
+  }
+
+  const enviadas = await db.getMensagens({ clienteId });
+  const recebidas = await db.getMensagensRecebidas(clienteId);
+
+  const mensagens = [
+    ...enviadas.map(m => ({
+      direcao: "saida" as const,
+      id: m.id,
+      tipo: m.tipo,
+      conteudo: m.conteudo,
+      status: m.status,
+      data: m.dataEnvio ?? m.criadoEm,
+      midiaUrl: null,
+      statusMidia: null,
+      pedidoId: null,
+      entregueEm: m.entregueEm,
+      lidaEm: m.lidaEm,
+    })),
+    ...recebidas.map(m => ({
+      direcao: "entrada" as const,
+      id: m.id,
+      tipo: m.tipo,
+      conteudo: m.conteudo,
+      status: m.lida ? "lida" : "recebida",
+      data: m.recebidaEm,
+      midiaUrl: m.midiaUrl,
+      statusMidia: m.statusMidia,
+      pedidoId: m.pedidoId,
+      entregueEm: null,
+      lidaEm: null,
+    })),
+  ].sort((a, b) => a.data.getTime() - b.data.getTime());
+
+  return { cliente, mensagens };
+}
+
+export type MensagemRegistrada = MensagemRecebidaWhatsApp & {
+  clienteId: number;
+  novoCliente: boolean;
+  mensagemId: number;
+};
+
+type ReceptorMensagemRegistrada = (mensagem: MensagemRegistrada) => Promise<void> | void;
+
+const receptores: ReceptorMensagemRegistrada[] = [];
+
+/**
+ * Registra uma função chamada depois que a mensagem recebida foi gravada
+ */
+export function onMensagemRegistrada(receptor: ReceptorMensagemRegistrada) {
+  receptores.push(receptor);
+}
+
+function notificarReceptores(mensagem: MensagemRegistrada) {
+  for (const receptor of receptores) {
+    Promise.resolve()
+      .then(() => receptor(mensagem))
+      .catch(error => console.error("[Conversas] Erro ao processar mensagem registrada:", error));
+  }
+}
+
+let fila: Promise<unknown> = Promise.resolve();
+
+/**
+ * Passa a gravar as mensagens recebidas pelo WhatsApp. A gravação é em série
+ * para que mensagens seguidas de um número novo criem um único lead; os
+ * receptores rodam depois, fora da fila.
+ */
+export function iniciarConversas() {
+  onMensagemRecebida(mensagem => {
+    const processamento = fila.then(() => receberMensagem(mensagem));
+    fila = processamento.catch(() => undefined);
+    return processamento.then(registrada => {
+      if (registrada.mensagemId === undefined) return;
+      notificarReceptores({ ...mensagem, ...registrada, mensagemId: registrada.mensagemId });
+    });
+  });
+}
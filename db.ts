@@ -1,4 +1,4 @@
-import { eq, desc, and, sql, gte, lte, like, inArray } from "drizzle-orm";
+import { eq, ne, desc, and, or, sql, gt, gte, lte, lt, like, inArray, isNull } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, users,
@@ -14,6 +14,46 @@ import {
   campanhas, InsertCampanha,
   configWhatsapp, InsertConfigWhatsapp
 } from "../drizzle/schema";
+import { 
+  cancelamentosVenda,
+  descontosVenda, InsertDescontoVenda,
+  categoriasCliente, CategoriaCliente,
+  tabelasPreco, InsertTabelaPreco,
+  itensTabelaPreco,
+  estoqueVasilhames,
+  movimentacoesVasilhames, InsertMovimentacaoVasilhame,
+  pedidos, InsertPedido, Pedido,
+  itensPedido, InsertItemPedido,
+  contasReceber, InsertContaReceber, ContaReceber,
+  pagamentosContaReceber, PagamentoContaReceber,
+  caixas, Caixa,
+  movimentacoesCaixa, InsertMovimentacaoCaixa,
+  regrasComissao, InsertRegraComissao,
+  extratosComissao, InsertExtratoComissao, ExtratoComissao,
+  mensagensCampanha,
+  tarefasAgendadas, InsertTarefaAgendada, TarefaAgendada,
+  lembretesRecompra, InsertLembreteRecompra,
+  mensagensRecebidas, InsertMensagemRecebida,
+  configAssistente, InsertConfigAssistente,
+  enviosMensagem,
+  configProvedorWhatsapp, ConfigProvedorWhatsapp,
+  filaMensagens,
+  consentimentosMarketing,
+  historicoConsentimento, InsertHistoricoConsentimento,
+  modelosMensagem, InsertModeloMensagem,
+  perfisUsuario, InsertPerfilUsuario,
+  registrosAuditoria, InsertRegistroAuditoria,
+  depositos, InsertDeposito,
+  estoqueDepositos,
+  transferenciasEstoque,
+  itensTransferenciaEstoque,
+  movimentacoesDeposito,
+  depositosVendedor,
+  depositosVenda,
+  fornecedores, InsertFornecedor,
+  compras, InsertCompra,
+  itensCompra, InsertItemCompra
+} from "./schema";
 import { ENV } from './_core/env';
 
 let _db: ReturnType<typeof drizzle> | null = null;
@@ -30,6 +70,9 @@ export async function getDb() {
   return _db;
 }
 
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type DbTransaction = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
 // ============ USERS ============
 export async function upsertUser(user: InsertUser): Promise<void> {
   if (!user.id) {
@@ -101,6 +144,52 @@ export async function getAllUsers() {
   return await db.select().from(users).orderBy(desc(users.createdAt));
 }
 
+// ============ PERFIS DE USUÁRIO ============
+export async function getPerfilUsuario(usuarioId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(perfisUsuario).where(eq(perfisUsuario.usuarioId, usuarioId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Usuários com o perfil de acesso e o vendedor vinculado, quando houver
+ */
+export async function getUsuariosComPerfil() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      role: users.role,
+      lastSignedIn: users.lastSignedIn,
+      perfil: perfisUsuario.perfil,
+      vendedorId: perfisUsuario.vendedorId,
+      vendedorNome: vendedores.nome,
+    })
+    .from(users)
+    .leftJoin(perfisUsuario, eq(perfisUsuario.usuarioId, users.id))
+    .leftJoin(vendedores, eq(vendedores.id, perfisUsuario.vendedorId))
+    .orderBy(users.name);
+}
+
+export async function definirPerfilUsuario(perfil: InsertPerfilUsuario) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(perfisUsuario).values(perfil).onDuplicateKeyUpdate({
+    set: {
+      perfil: perfil.perfil,
+      vendedorId: perfil.vendedorId ?? null,
+      atualizadoPor: perfil.atualizadoPor ?? null,
+    },
+  });
+}
+
 // ============ VENDEDORES ============
 export async function createVendedor(vendedor: InsertVendedor) {
   const db = await getDb();
@@ -110,24 +199,51 @@ export async function createVendedor(vendedor: InsertVendedor) {
   return result;
 }
 
+const colunasVendedor = {
+  id: vendedores.id,
+  nome: vendedores.nome,
+  telefone: vendedores.telefone,
+  comissao: vendedores.comissao,
+  ativo: vendedores.ativo,
+  criadoEm: vendedores.criadoEm,
+  depositoId: depositosVendedor.depositoId,
+  depositoNome: depositos.nome
+};
+
 export async function getVendedores(apenasAtivos = true) {
   const db = await getDb();
   if (!db) return [];
   
-  if (apenasAtivos) {
-    return await db.select().from(vendedores).where(eq(vendedores.ativo, true)).orderBy(vendedores.nome);
-  }
-  return await db.select().from(vendedores).orderBy(vendedores.nome);
+  return await db.select(colunasVendedor)
+    .from(vendedores)
+    .leftJoin(depositosVendedor, eq(depositosVendedor.vendedorId, vendedores.id))
+    .leftJoin(depositos, eq(depositos.id, depositosVendedor.depositoId))
+    .where(apenasAtivos ? eq(vendedores.ativo, true) : undefined)
+    .orderBy(vendedores.nome);
 }
 
 export async function getVendedorById(id: number) {
   const db = await getDb();
   if (!db) return undefined;
   
-  const result = await db.select().from(vendedores).where(eq(vendedores.id, id)).limit(1);
+  const result = await db.select(colunasVendedor)
+    .from(vendedores)
+    .leftJoin(depositosVendedor, eq(depositosVendedor.vendedorId, vendedores.id))
+    .leftJoin(depositos, eq(depositos.id, depositosVendedor.depositoId))
+    .where(eq(vendedores.id, id))
+    .limit(1);
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function definirDepositoVendedor(vendedorId: number, depositoId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(depositosVendedor)
+    .values({ vendedorId, depositoId })
+    .onDuplicateKeyUpdate({ set: { depositoId } });
+}
+
 export async function updateVendedor(id: number, data: Partial<InsertVendedor>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -220,7 +336,32 @@ export async function getClienteById(id: number) {
   if (!db) return undefined;
   
   const result = await db.select().from(clientes).where(eq(clientes.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  if (result.length === 0) return undefined;
+  
+  const categoria = await db.select({ categoria: categoriasCliente.categoria })
+    .from(categoriasCliente)
+    .where(eq(categoriasCliente.clienteId, id))
+    .limit(1);
+  
+  return {
+    ...result[0],
+    categoria: categoria.length > 0 ? categoria[0].categoria : null
+  };
+}
+
+/**
+ * Clientes cujo telefone, só com dígitos, termina com o sufixo informado.
+ * A comparação final do número fica com quem chama.
+ */
+export async function getClientesPorSufixoTelefone(sufixo: string) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const digitos = sql`REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(${clientes.telefone}, ' ', ''), '-', ''), '(', ''), ')', ''), '+', '')`;
+  
+  return await db.select().from(clientes)
+    .where(sql`${digitos} LIKE ${`%${sufixo}`}`)
+    .orderBy(desc(clientes.ativo), clientes.id);
 }
 
 export async function updateCliente(id: number, data: Partial<InsertCliente>) {
@@ -237,6 +378,15 @@ export async function deleteCliente(id: number) {
   return await db.update(clientes).set({ ativo: false }).where(eq(clientes.id, id));
 }
 
+export async function definirCategoriaCliente(clienteId: number, categoria: CategoriaCliente["categoria"]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(categoriasCliente)
+    .values({ clienteId, categoria })
+    .onDuplicateKeyUpdate({ set: { categoria } });
+}
+
 // ============ PRODUTOS ============
 export async function createProduto(produto: InsertProduto) {
   const db = await getDb();
@@ -279,72 +429,259 @@ export async function updateProduto(id: number, data: Partial<InsertProduto>) {
   return await db.update(produtos).set(data).where(eq(produtos.id, id));
 }
 
-// ============ ESTOQUE ============
-export async function getEstoque() {
+// ============ TABELAS DE PREÇO ============
+export async function createTabelaPreco(tabela: InsertTabelaPreco) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(tabelasPreco).values(tabela);
+}
+
+export async function getTabelasPreco(filtros?: {
+  escopo?: "regiao" | "cliente" | "categoria";
+  clienteId?: number;
+  apenasAtivas?: boolean;
+}) {
   const db = await getDb();
   if (!db) return [];
   
-  return await db
+  const conditions = [];
+  
+  if (filtros?.apenasAtivas !== false) {
+    conditions.push(eq(tabelasPreco.ativo, true));
+  }
+  
+  if (filtros?.escopo) {
+    conditions.push(eq(tabelasPreco.escopo, filtros.escopo));
+  }
+  
+  if (filtros?.clienteId) {
+    conditions.push(eq(tabelasPreco.clienteId, filtros.clienteId));
+  }
+  
+  return await db.select().from(tabelasPreco)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(tabelasPreco.prioridade), tabelasPreco.nome);
+}
+
+export async function getTabelaPrecoById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(tabelasPreco).where(eq(tabelasPreco.id, id)).limit(1);
+  if (result.length === 0) return undefined;
+  
+  const itens = await db
     .select({
-      id: estoque.id,
-      produtoId: estoque.produtoId,
+      id: itensTabelaPreco.id,
+      produtoId: itensTabelaPreco.produtoId,
       produtoNome: produtos.nome,
-      produtoTipo: produtos.tipo,
-      quantidade: estoque.quantidade,
-      atualizadoEm: estoque.atualizadoEm
+      precoPadrao: produtos.precoVenda,
+      preco: itensTabelaPreco.preco
     })
-    .from(estoque)
-    .leftJoin(produtos, eq(estoque.produtoId, produtos.id))
-    .where(eq(produtos.ativo, true));
+    .from(itensTabelaPreco)
+    .leftJoin(produtos, eq(itensTabelaPreco.produtoId, produtos.id))
+    .where(eq(itensTabelaPreco.tabelaPrecoId, id));
+  
+  return {
+    ...result[0],
+    itens
+  };
 }
 
-export async function getEstoquePorProduto(produtoId: number) {
+export async function updateTabelaPreco(id: number, data: Partial<InsertTabelaPreco>) {
   const db = await getDb();
-  if (!db) return undefined;
+  if (!db) throw new Error("Database not available");
   
-  const result = await db.select().from(estoque).where(eq(estoque.produtoId, produtoId)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return await db.update(tabelasPreco).set(data).where(eq(tabelasPreco.id, id));
 }
 
-export async function atualizarEstoque(produtoId: number, tipo: "entrada" | "saida", quantidade: number, usuarioId?: string, observacao?: string) {
+export async function deleteTabelaPreco(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  // Buscar estoque atual
-  const estoqueAtual = await getEstoquePorProduto(produtoId);
-  if (!estoqueAtual) {
-    throw new Error("Produto não encontrado no estoque");
-  }
+  return await db.update(tabelasPreco).set({ ativo: false }).where(eq(tabelasPreco.id, id));
+}
+
+export async function definirItensTabelaPreco(tabelaPrecoId: number, itens: { produtoId: number; preco: number }[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
   
-  // Calcular nova quantidade
-  const novaQuantidade = tipo === "entrada" 
-    ? estoqueAtual.quantidade + quantidade 
-    : estoqueAtual.quantidade - quantidade;
+  // Substitui todos os preços da tabela de uma vez
+  return await db.transaction(async (tx) => {
+    await tx.delete(itensTabelaPreco).where(eq(itensTabelaPreco.tabelaPrecoId, tabelaPrecoId));
+    if (itens.length > 0) {
+      await tx.insert(itensTabelaPreco).values(
+        itens.map(item => ({ ...item, tabelaPrecoId }))
+      );
+    }
+    return { tabelaPrecoId, totalItens: itens.length };
+  });
+}
+
+/**
+ * Preços de tabelas ativas e vigentes na data que se aplicam ao cliente,
+ * seja pelo próprio cliente, pela categoria ou pela região dele
+ */
+export async function getPrecosTabelaAplicaveis(cliente: {
+  id: number;
+  categoria?: CategoriaCliente["categoria"] | null;
+  regiao?: string | null;
+}, data = new Date()) {
+  const db = await getDb();
+  if (!db) return [];
   
-  if (novaQuantidade < 0) {
-    throw new Error("Quantidade insuficiente em estoque");
+  const escopos = [
+    and(eq(tabelasPreco.escopo, "cliente"), eq(tabelasPreco.clienteId, cliente.id))
+  ];
+  if (cliente.categoria) {
+    escopos.push(and(eq(tabelasPreco.escopo, "categoria"), eq(tabelasPreco.categoria, cliente.categoria)));
+  }
+  if (cliente.regiao) {
+    escopos.push(and(eq(tabelasPreco.escopo, "regiao"), eq(tabelasPreco.regiao, cliente.regiao)));
   }
   
-  // Atualizar estoque
-  await db.update(estoque)
-    .set({ quantidade: novaQuantidade })
-    .where(eq(estoque.produtoId, produtoId));
+  const inicioDoDia = new Date(data);
+  inicioDoDia.setHours(0, 0, 0, 0);
   
-  // Registrar movimentação
-  await db.insert(movimentacoesEstoque).values({
-    produtoId,
-    tipo,
-    quantidade,
-    quantidadeAtual: novaQuantidade,
-    observacao,
-    usuarioId
+  return await db
+    .select({
+      tabelaPrecoId: tabelasPreco.id,
+      tabelaPrecoNome: tabelasPreco.nome,
+      escopo: tabelasPreco.escopo,
+      prioridade: tabelasPreco.prioridade,
+      produtoId: itensTabelaPreco.produtoId,
+      preco: itensTabelaPreco.preco
+    })
+    .from(itensTabelaPreco)
+    .innerJoin(tabelasPreco, eq(itensTabelaPreco.tabelaPrecoId, tabelasPreco.id))
+    .where(and(
+      eq(tabelasPreco.ativo, true),
+      or(isNull(tabelasPreco.validoDe), lte(tabelasPreco.validoDe, data)),
+      // validoAte é só a data (00:00): a tabela vale até o fim desse dia
+      or(isNull(tabelasPreco.validoAte), gte(tabelasPreco.validoAte, inicioDoDia)),
+      or(...escopos)
+    ));
+}
+
+// ============ DEPÓSITOS ============
+/**
+ * Cria o depósito padrão na primeira execução e coloca nele o estoque, os
+ * vendedores e as vendas existentes, para que os saldos por depósito somem
+ * o estoque global
+ */
+export async function garantirDepositoPadrao() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const existente = await tx.select({ id: depositos.id }).from(depositos).where(eq(depositos.padrao, true)).limit(1);
+    if (existente.length > 0) return existente[0].id;
+    
+    const result = await tx.insert(depositos).values({ nome: "Principal", padrao: true });
+    const depositoId = Number(result[0].insertId);
+    
+    const saldos = await tx.select({ produtoId: estoque.produtoId, quantidade: estoque.quantidade }).from(estoque);
+    if (saldos.length > 0) {
+      await tx.insert(estoqueDepositos).values(saldos.map(saldo => ({ ...saldo, depositoId })));
+    }
+    
+    const listaVendedores = await tx.select({ vendedorId: vendedores.id }).from(vendedores);
+    if (listaVendedores.length > 0) {
+      await tx.insert(depositosVendedor).values(listaVendedores.map(v => ({ ...v, depositoId })));
+    }
+    
+    // Vendas em lotes para não montar um INSERT gigante
+    const listaVendas = await tx.select({ vendaId: vendas.id }).from(vendas);
+    for (let i = 0; i < listaVendas.length; i += 1000) {
+      await tx.insert(depositosVenda).values(listaVendas.slice(i, i + 1000).map(v => ({ ...v, depositoId })));
+    }
+    
+    return depositoId;
   });
+}
+
+export async function createDeposito(deposito: InsertDeposito) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
   
-  return { quantidadeAnterior: estoqueAtual.quantidade, quantidadeAtual: novaQuantidade };
+  return await db.insert(depositos).values({ ...deposito, padrao: false });
 }
 
-export async function getMovimentacoesEstoque(filtros?: {
+export async function getDepositos(apenasAtivos = true) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select().from(depositos)
+    .where(apenasAtivos ? eq(depositos.ativo, true) : undefined)
+    .orderBy(desc(depositos.padrao), depositos.nome);
+}
+
+export async function getDepositoById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(depositos).where(eq(depositos.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateDeposito(id: number, data: Partial<Omit<InsertDeposito, "padrao">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    if (data.ativo === false) {
+      const [deposito] = await tx.select({ padrao: depositos.padrao }).from(depositos).where(eq(depositos.id, id)).limit(1).for("update");
+      if (deposito?.padrao) {
+        throw new Error("O depósito padrão não pode ser desativado");
+      }
+      const [saldo] = await tx
+        .select({ quantidade: sql<number>`COALESCE(SUM(${estoqueDepositos.quantidade}), 0)`.mapWith(Number) })
+        .from(estoqueDepositos)
+        .where(eq(estoqueDepositos.depositoId, id));
+      if (saldo.quantidade > 0) {
+        throw new Error("Transfira o estoque do depósito antes de desativá-lo");
+      }
+    }
+    
+    return await tx.update(depositos).set(data).where(eq(depositos.id, id));
+  });
+}
+
+/**
+ * Saldo de cada produto ativo por depósito
+ */
+export async function getEstoqueDepositos(depositoId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [eq(produtos.ativo, true)];
+  
+  if (depositoId) {
+    conditions.push(eq(estoqueDepositos.depositoId, depositoId));
+  }
+  
+  return await db
+    .select({
+      depositoId: estoqueDepositos.depositoId,
+      depositoNome: depositos.nome,
+      produtoId: estoqueDepositos.produtoId,
+      produtoNome: produtos.nome,
+      produtoTipo: produtos.tipo,
+      quantidade: estoqueDepositos.quantidade,
+      atualizadoEm: estoqueDepositos.atualizadoEm
+    })
+    .from(estoqueDepositos)
+    .innerJoin(produtos, eq(estoqueDepositos.produtoId, produtos.id))
+    .innerJoin(depositos, eq(estoqueDepositos.depositoId, depositos.id))
+    .where(and(...conditions))
+    .orderBy(depositos.nome, produtos.nome);
+}
+
+export async function getMovimentacoesDeposito(filtros?: {
+  depositoId?: number;
   produtoId?: number;
+  transferenciaId?: number;
   dataInicio?: Date;
   dataFim?: Date;
 }) {
@@ -353,70 +690,88 @@ export async function getMovimentacoesEstoque(filtros?: {
   
   const conditions = [];
   
+  if (filtros?.depositoId) {
+    conditions.push(eq(movimentacoesDeposito.depositoId, filtros.depositoId));
+  }
+  
   if (filtros?.produtoId) {
-    conditions.push(eq(movimentacoesEstoque.produtoId, filtros.produtoId));
+    conditions.push(eq(movimentacoesDeposito.produtoId, filtros.produtoId));
+  }
+  
+  if (filtros?.transferenciaId) {
+    conditions.push(eq(movimentacoesDeposito.transferenciaId, filtros.transferenciaId));
   }
   
   if (filtros?.dataInicio) {
-    conditions.push(gte(movimentacoesEstoque.criadoEm, filtros.dataInicio));
+    conditions.push(gte(movimentacoesDeposito.criadoEm, filtros.dataInicio));
   }
   
   if (filtros?.dataFim) {
-    conditions.push(lte(movimentacoesEstoque.criadoEm, filtros.dataFim));
+    conditions.push(lte(movimentacoesDeposito.criadoEm, filtros.dataFim));
   }
   
   return await db
     .select({
-      id: movimentacoesEstoque.id,
-      produtoId: movimentacoesEstoque.produtoId,
+      id: movimentacoesDeposito.id,
+      depositoId: movimentacoesDeposito.depositoId,
+      depositoNome: depositos.nome,
+      produtoId: movimentacoesDeposito.produtoId,
       produtoNome: produtos.nome,
-      tipo: movimentacoesEstoque.tipo,
-      quantidade: movimentacoesEstoque.quantidade,
-      quantidadeAtual: movimentacoesEstoque.quantidadeAtual,
-      observacao: movimentacoesEstoque.observacao,
-      usuarioId: movimentacoesEstoque.usuarioId,
+      tipo: movimentacoesDeposito.tipo,
+      quantidade: movimentacoesDeposito.quantidade,
+      quantidadeAtual: movimentacoesDeposito.quantidadeAtual,
+      transferenciaId: movimentacoesDeposito.transferenciaId,
+      observacao: movimentacoesDeposito.observacao,
       usuarioNome: users.name,
-      criadoEm: movimentacoesEstoque.criadoEm
+      criadoEm: movimentacoesDeposito.criadoEm
     })
-    .from(movimentacoesEstoque)
-    .leftJoin(produtos, eq(movimentacoesEstoque.produtoId, produtos.id))
-    .leftJoin(users, eq(movimentacoesEstoque.usuarioId, users.id))
+    .from(movimentacoesDeposito)
+    .leftJoin(depositos, eq(movimentacoesDeposito.depositoId, depositos.id))
+    .leftJoin(produtos, eq(movimentacoesDeposito.produtoId, produtos.id))
+    .leftJoin(users, eq(movimentacoesDeposito.usuarioId, users.id))
     .where(conditions.length > 0 ? and(...conditions) : undefined)
-    .orderBy(desc(movimentacoesEstoque.criadoEm));
+    .orderBy(desc(movimentacoesDeposito.criadoEm), desc(movimentacoesDeposito.id));
 }
 
-// ============ VENDAS ============
-export async function createVenda(venda: InsertVenda, itens: Omit<InsertItemVenda, "vendaId">[]) {
+/**
+ * Transfere produtos entre depósitos: saída na origem e entrada no destino
+ * na mesma transação. O estoque global não muda.
+ */
+export async function transferirEstoque(
+  transferencia: { origemId: number; destinoId: number; observacao?: string; usuarioId?: string },
+  itens: { produtoId: number; quantidade: number }[]
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  // Inserir venda
-  const resultVenda = await db.insert(vendas).values(venda);
-  const vendaId = Number(resultVenda[0].insertId);
+  if (transferencia.origemId === transferencia.destinoId) {
+    throw new Error("Origem e destino da transferência devem ser diferentes");
+  }
   
-  // Inserir itens e atualizar estoque
-  for (const item of itens) {
-    await db.insert(itensVenda).values({
-      ...item,
-      vendaId
-    });
+  return await db.transaction(async (tx) => {
+    const origemId = await resolverDeposito(tx, transferencia.origemId);
+    const destinoId = await resolverDeposito(tx, transferencia.destinoId);
     
-    // Dar baixa no estoque
-    await atualizarEstoque(
-      item.produtoId, 
-      "saida", 
-      item.quantidade, 
-      venda.usuarioId || undefined,
-      `Venda #${vendaId}`
+    const result = await tx.insert(transferenciasEstoque).values(transferencia);
+    const transferenciaId = Number(result[0].insertId);
+    
+    await tx.insert(itensTransferenciaEstoque).values(
+      itens.map(item => ({ ...item, transferenciaId }))
     );
-  }
-  
-  return vendaId;
+    
+    const observacao = [`Transferência #${transferenciaId}`, transferencia.observacao].filter(Boolean).join(": ");
+    for (const item of itens) {
+      const movimento = { ...item, transferenciaId, observacao, usuarioId: transferencia.usuarioId };
+      await movimentarEstoqueDeposito(tx, { ...movimento, depositoId: origemId, tipo: "saida" });
+      await movimentarEstoqueDeposito(tx, { ...movimento, depositoId: destinoId, tipo: "entrada" });
+    }
+    
+    return { transferenciaId, totalItens: itens.length };
+  });
 }
 
-export async function getVendas(filtros?: {
-  clienteId?: number;
-  vendedorId?: number;
+export async function getTransferenciasEstoque(filtros?: {
+  depositoId?: number;
   dataInicio?: Date;
   dataFim?: Date;
 }) {
@@ -425,257 +780,2839 @@ export async function getVendas(filtros?: {
   
   const conditions = [];
   
-  if (filtros?.clienteId) {
-    conditions.push(eq(vendas.clienteId, filtros.clienteId));
-  }
-  
-  if (filtros?.vendedorId) {
-    conditions.push(eq(vendas.vendedorId, filtros.vendedorId));
+  if (filtros?.depositoId) {
+    conditions.push(or(
+      eq(transferenciasEstoque.origemId, filtros.depositoId),
+      eq(transferenciasEstoque.destinoId, filtros.depositoId)
+    ));
   }
   
   if (filtros?.dataInicio) {
-    conditions.push(gte(vendas.criadoEm, filtros.dataInicio));
+    conditions.push(gte(transferenciasEstoque.criadoEm, filtros.dataInicio));
   }
   
   if (filtros?.dataFim) {
-    conditions.push(lte(vendas.criadoEm, filtros.dataFim));
+    conditions.push(lte(transferenciasEstoque.criadoEm, filtros.dataFim));
   }
   
-  return await db
+  const lista = await db
     .select({
-      id: vendas.id,
-      clienteId: vendas.clienteId,
-      clienteNome: clientes.nome,
-      vendedorId: vendas.vendedorId,
-      vendedorNome: vendedores.nome,
-      formaPagamento: vendas.formaPagamento,
-      total: vendas.total,
-      lucro: vendas.lucro,
-      observacoes: vendas.observacoes,
-      criadoEm: vendas.criadoEm
+      id: transferenciasEstoque.id,
+      origemId: transferenciasEstoque.origemId,
+      origemNome: sql<string>`(SELECT ${depositos.nome} FROM ${depositos} WHERE ${depositos.id} = ${transferenciasEstoque.origemId})`,
+      destinoId: transferenciasEstoque.destinoId,
+      destinoNome: sql<string>`(SELECT ${depositos.nome} FROM ${depositos} WHERE ${depositos.id} = ${transferenciasEstoque.destinoId})`,
+      observacao: transferenciasEstoque.observacao,
+      usuarioNome: users.name,
+      criadoEm: transferenciasEstoque.criadoEm
     })
-    .from(vendas)
-    .leftJoin(clientes, eq(vendas.clienteId, clientes.id))
-    .leftJoin(vendedores, eq(vendas.vendedorId, vendedores.id))
+    .from(transferenciasEstoque)
+    .leftJoin(users, eq(transferenciasEstoque.usuarioId, users.id))
     .where(conditions.length > 0 ? and(...conditions) : undefined)
-    .orderBy(desc(vendas.criadoEm));
+    .orderBy(desc(transferenciasEstoque.criadoEm));
+  
+  if (lista.length === 0) return [];
+  
+  const itens = await db
+    .select({
+      transferenciaId: itensTransferenciaEstoque.transferenciaId,
+      produtoId: itensTransferenciaEstoque.produtoId,
+      produtoNome: produtos.nome,
+      quantidade: itensTransferenciaEstoque.quantidade
+    })
+    .from(itensTransferenciaEstoque)
+    .leftJoin(produtos, eq(itensTransferenciaEstoque.produtoId, produtos.id))
+    .where(inArray(itensTransferenciaEstoque.transferenciaId, lista.map(t => t.id)));
+  
+  return lista.map(transferencia => ({
+    ...transferencia,
+    itens: itens.filter(item => item.transferenciaId === transferencia.id),
+  }));
 }
 
-export async function getVendaById(id: number) {
+// ============ ESTOQUE ============
+export async function getEstoque() {
   const db = await getDb();
-  if (!db) return undefined;
+  if (!db) return [];
   
-  const venda = await db
+  return await db
     .select({
-      id: vendas.id,
-      clienteId: vendas.clienteId,
-      clienteNome: clientes.nome,
-      clienteTelefone: clientes.telefone,
+      id: estoque.id,
+      produtoId: estoque.produtoId,
+      produtoNome: produtos.nome,
+      produtoTipo: produtos.tipo,
+      quantidade: estoque.quantidade,
+      quantidadeVazios: sql<number>`COALESCE(${estoqueVasilhames.quantidade}, 0)`.mapWith(Number),
+      atualizadoEm: estoque.atualizadoEm
+    })
+    .from(estoque)
+    .leftJoin(produtos, eq(estoque.produtoId, produtos.id))
+    .leftJoin(estoqueVasilhames, eq(estoque.produtoId, estoqueVasilhames.produtoId))
+    .where(eq(produtos.ativo, true));
+}
+
+export async function getEstoquePorProduto(produtoId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(estoque).where(eq(estoque.produtoId, produtoId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Id do depósito informado, que precisa estar ativo, ou do depósito padrão
+ */
+async function resolverDeposito(tx: DbTransaction, depositoId?: number) {
+  const result = await tx.select({ id: depositos.id, ativo: depositos.ativo })
+    .from(depositos)
+    .where(depositoId ? eq(depositos.id, depositoId) : eq(depositos.padrao, true))
+    .limit(1);
+  
+  if (result.length === 0) {
+    throw new Error(depositoId ? "Depósito não encontrado" : "Nenhum depósito padrão cadastrado");
+  }
+  if (!result[0].ativo) {
+    throw new Error("Depósito inativo");
+  }
+  return result[0].id;
+}
+
+type MovimentoDeposito = Omit<typeof movimentacoesDeposito.$inferInsert, "id" | "quantidadeAtual" | "criadoEm">;
+
+/**
+ * Movimenta o saldo do produto no depósito e grava no razão do depósito.
+ * Como no estoque global, a saída só passa com saldo suficiente.
+ */
+async function movimentarEstoqueDeposito(tx: DbTransaction, movimento: MovimentoDeposito) {
+  const { depositoId, produtoId, quantidade } = movimento;
+  const doProduto = and(eq(estoqueDepositos.depositoId, depositoId), eq(estoqueDepositos.produtoId, produtoId));
+  
+  if (movimento.tipo === "entrada") {
+    await tx.insert(estoqueDepositos)
+      .values({ depositoId, produtoId, quantidade })
+      .onDuplicateKeyUpdate({ set: { quantidade: sql`${estoqueDepositos.quantidade} + ${quantidade}` } });
+  } else {
+    const resultUpdate = await tx.update(estoqueDepositos)
+      .set({ quantidade: sql`${estoqueDepositos.quantidade} - ${quantidade}` })
+      .where(and(doProduto, gte(estoqueDepositos.quantidade, quantidade)));
+    if (resultUpdate[0].affectedRows === 0) {
+      throw new Error("Quantidade insuficiente em estoque no depósito");
+    }
+  }
+  
+  const [saldo] = await tx.select({ quantidade: estoqueDepositos.quantidade })
+    .from(estoqueDepositos)
+    .where(doProduto)
+    .limit(1);
+  
+  await tx.insert(movimentacoesDeposito).values({
+    ...movimento,
+    quantidadeAtual: saldo.quantidade
+  });
+  
+  return saldo.quantidade;
+}
+
+/**
+ * Movimenta o estoque de um produto dentro de uma transação já aberta.
+ * A baixa é feita com UPDATE condicional, então duas vendas concorrentes
+ * não conseguem tirar a mesma unidade: a segunda não afeta nenhuma linha.
+ * O saldo do depósito acompanha o global.
+ */
+async function movimentarEstoque(
+  tx: DbTransaction,
+  depositoId: number,
+  produtoId: number,
+  tipo: "entrada" | "saida",
+  quantidade: number,
+  usuarioId?: string,
+  observacao?: string
+) {
+  const delta = tipo === "entrada" ? quantidade : -quantidade;
+  
+  const conditions = [eq(estoque.produtoId, produtoId)];
+  if (tipo === "saida") {
+    conditions.push(gte(estoque.quantidade, quantidade));
+  }
+  
+  const resultUpdate = await tx.update(estoque)
+    .set({ quantidade: sql`${estoque.quantidade} + ${delta}` })
+    .where(and(...conditions));
+  
+  if (resultUpdate[0].affectedRows === 0) {
+    const existe = await tx.select({ id: estoque.id }).from(estoque).where(eq(estoque.produtoId, produtoId)).limit(1);
+    if (existe.length === 0) {
+      throw new Error("Produto não encontrado no estoque");
+    }
+    throw new Error("Quantidade insuficiente em estoque");
+  }
+  
+  // A linha já está bloqueada pelo UPDATE, então a leitura é consistente
+  const [estoqueAtual] = await tx.select({ quantidade: estoque.quantidade })
+    .from(estoque)
+    .where(eq(estoque.produtoId, produtoId))
+    .limit(1);
+  const novaQuantidade = estoqueAtual.quantidade;
+  
+  // Registrar movimentação
+  const resultMovimentacao = await tx.insert(movimentacoesEstoque).values({
+    produtoId,
+    tipo,
+    quantidade,
+    quantidadeAtual: novaQuantidade,
+    observacao,
+    usuarioId
+  });
+  
+  const quantidadeDeposito = await movimentarEstoqueDeposito(tx, {
+    depositoId,
+    produtoId,
+    tipo,
+    quantidade,
+    movimentacaoEstoqueId: Number(resultMovimentacao[0].insertId),
+    observacao,
+    usuarioId
+  });
+  
+  return {
+    quantidadeAnterior: novaQuantidade - delta,
+    quantidadeAtual: novaQuantidade,
+    depositoId,
+    quantidadeDeposito
+  };
+}
+
+export async function atualizarEstoque(produtoId: number, tipo: "entrada" | "saida", quantidade: number, usuarioId?: string, observacao?: string, depositoId?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const deposito = await resolverDeposito(tx, depositoId);
+    return await movimentarEstoque(tx, deposito, produtoId, tipo, quantidade, usuarioId, observacao);
+  });
+}
+
+export async function getMovimentacoesEstoque(filtros?: {
+  produtoId?: number;
+  dataInicio?: Date;
+  dataFim?: Date;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.produtoId) {
+    conditions.push(eq(movimentacoesEstoque.produtoId, filtros.produtoId));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(movimentacoesEstoque.criadoEm, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(movimentacoesEstoque.criadoEm, filtros.dataFim));
+  }
+  
+  return await db
+    .select({
+      id: movimentacoesEstoque.id,
+      produtoId: movimentacoesEstoque.produtoId,
+      produtoNome: produtos.nome,
+      tipo: movimentacoesEstoque.tipo,
+      quantidade: movimentacoesEstoque.quantidade,
+      quantidadeAtual: movimentacoesEstoque.quantidadeAtual,
+      observacao: movimentacoesEstoque.observacao,
+      usuarioId: movimentacoesEstoque.usuarioId,
+      usuarioNome: users.name,
+      criadoEm: movimentacoesEstoque.criadoEm
+    })
+    .from(movimentacoesEstoque)
+    .leftJoin(produtos, eq(movimentacoesEstoque.produtoId, produtos.id))
+    .leftJoin(users, eq(movimentacoesEstoque.usuarioId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(movimentacoesEstoque.criadoEm));
+}
+
+// ============ VASILHAMES ============
+type MovimentoVasilhame = Omit<InsertMovimentacaoVasilhame, "id" | "quantidadeAtual" | "criadoEm">;
+
+async function getSaldoEmprestadoVasilhame(tx: DbTransaction, clienteId: number, produtoId: number) {
+  const [saldo] = await tx
+    .select({ quantidade: sql<number>`COALESCE(SUM(${movimentacoesVasilhames.variacaoEmprestimo}), 0)`.mapWith(Number) })
+    .from(movimentacoesVasilhames)
+    .where(and(
+      eq(movimentacoesVasilhames.clienteId, clienteId),
+      eq(movimentacoesVasilhames.produtoId, produtoId)
+    ));
+  return saldo.quantidade;
+}
+
+/**
+ * Registra uma movimentação de vasilhames dentro de uma transação já aberta,
+ * aplicando a variação no estoque de vazios e validando o saldo emprestado
+ */
+async function movimentarVasilhames(tx: DbTransaction, movimento: MovimentoVasilhame) {
+  const variacaoEstoque = movimento.variacaoEstoque;
+  const variacaoEmprestimo = movimento.variacaoEmprestimo ?? 0;
+  
+  if (variacaoEstoque > 0) {
+    await tx.insert(estoqueVasilhames)
+      .values({ produtoId: movimento.produtoId, quantidade: variacaoEstoque })
+      .onDuplicateKeyUpdate({ set: { quantidade: sql`${estoqueVasilhames.quantidade} + ${variacaoEstoque}` } });
+  } else if (variacaoEstoque < 0) {
+    const resultUpdate = await tx.update(estoqueVasilhames)
+      .set({ quantidade: sql`${estoqueVasilhames.quantidade} + ${variacaoEstoque}` })
+      .where(and(
+        eq(estoqueVasilhames.produtoId, movimento.produtoId),
+        gte(estoqueVasilhames.quantidade, -variacaoEstoque)
+      ));
+    if (resultUpdate[0].affectedRows === 0) {
+      throw new Error("Quantidade insuficiente de vasilhames vazios");
+    }
+  }
+  
+  if (variacaoEmprestimo < 0) {
+    if (!movimento.clienteId) {
+      throw new Error("Cliente é obrigatório para devolução de vasilhame emprestado");
+    }
+    const saldo = await getSaldoEmprestadoVasilhame(tx, movimento.clienteId, movimento.produtoId);
+    if (saldo + variacaoEmprestimo < 0) {
+      throw new Error("Cliente não possui essa quantidade de vasilhames emprestados");
+    }
+  }
+  
+  const estoqueAtual = await tx.select({ quantidade: estoqueVasilhames.quantidade })
+    .from(estoqueVasilhames)
+    .where(eq(estoqueVasilhames.produtoId, movimento.produtoId))
+    .limit(1);
+  
+  await tx.insert(movimentacoesVasilhames).values({
+    ...movimento,
+    variacaoEmprestimo,
+    quantidadeAtual: estoqueAtual.length > 0 ? estoqueAtual[0].quantidade : 0
+  });
+}
+
+export async function atualizarEstoqueVasilhames(produtoId: number, tipo: "entrada" | "saida", quantidade: number, usuarioId?: string, observacao?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    await movimentarVasilhames(tx, {
+      produtoId,
+      tipo,
+      quantidade,
+      variacaoEstoque: tipo === "entrada" ? quantidade : -quantidade,
+      usuarioId,
+      observacao
+    });
+  });
+}
+
+export async function devolverVasilhamesEmprestados(clienteId: number, produtoId: number, quantidade: number, usuarioId?: string, observacao?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    await movimentarVasilhames(tx, {
+      produtoId,
+      clienteId,
+      tipo: "devolucao_emprestimo",
+      quantidade,
+      variacaoEstoque: quantidade,
+      variacaoEmprestimo: -quantidade,
+      usuarioId,
+      observacao
+    });
+  });
+}
+
+export async function getMovimentacoesVasilhames(filtros?: {
+  produtoId?: number;
+  clienteId?: number;
+  vendaId?: number;
+  dataInicio?: Date;
+  dataFim?: Date;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.produtoId) {
+    conditions.push(eq(movimentacoesVasilhames.produtoId, filtros.produtoId));
+  }
+  
+  if (filtros?.clienteId) {
+    conditions.push(eq(movimentacoesVasilhames.clienteId, filtros.clienteId));
+  }
+  
+  if (filtros?.vendaId) {
+    conditions.push(eq(movimentacoesVasilhames.vendaId, filtros.vendaId));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(movimentacoesVasilhames.criadoEm, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(movimentacoesVasilhames.criadoEm, filtros.dataFim));
+  }
+  
+  return await db
+    .select({
+      id: movimentacoesVasilhames.id,
+      produtoId: movimentacoesVasilhames.produtoId,
+      produtoNome: produtos.nome,
+      clienteId: movimentacoesVasilhames.clienteId,
+      clienteNome: clientes.nome,
+      vendaId: movimentacoesVasilhames.vendaId,
+      tipo: movimentacoesVasilhames.tipo,
+      quantidade: movimentacoesVasilhames.quantidade,
+      variacaoEstoque: movimentacoesVasilhames.variacaoEstoque,
+      variacaoEmprestimo: movimentacoesVasilhames.variacaoEmprestimo,
+      quantidadeAtual: movimentacoesVasilhames.quantidadeAtual,
+      observacao: movimentacoesVasilhames.observacao,
+      criadoEm: movimentacoesVasilhames.criadoEm
+    })
+    .from(movimentacoesVasilhames)
+    .leftJoin(produtos, eq(movimentacoesVasilhames.produtoId, produtos.id))
+    .leftJoin(clientes, eq(movimentacoesVasilhames.clienteId, clientes.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(movimentacoesVasilhames.criadoEm));
+}
+
+/**
+ * Saldo de vasilhames emprestados em aberto por cliente e produto
+ */
+export async function getVasilhamesEmprestados(clienteId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const saldo = sql<number>`SUM(${movimentacoesVasilhames.variacaoEmprestimo})`.mapWith(Number);
+  
+  return await db
+    .select({
+      clienteId: movimentacoesVasilhames.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      bairro: clientes.bairro,
+      regiao: clientes.regiao,
+      produtoId: movimentacoesVasilhames.produtoId,
+      produtoNome: produtos.nome,
+      quantidade: saldo,
+      ultimaMovimentacao: sql<Date>`MAX(${movimentacoesVasilhames.criadoEm})`
+    })
+    .from(movimentacoesVasilhames)
+    .leftJoin(clientes, eq(movimentacoesVasilhames.clienteId, clientes.id))
+    .leftJoin(produtos, eq(movimentacoesVasilhames.produtoId, produtos.id))
+    .where(clienteId ? eq(movimentacoesVasilhames.clienteId, clienteId) : sql`${movimentacoesVasilhames.clienteId} IS NOT NULL`)
+    .groupBy(movimentacoesVasilhames.clienteId, movimentacoesVasilhames.produtoId, clientes.nome, clientes.telefone, clientes.bairro, clientes.regiao, produtos.nome)
+    .having(sql`SUM(${movimentacoesVasilhames.variacaoEmprestimo}) > 0`)
+    .orderBy(desc(saldo));
+}
+
+// ============ VENDAS ============
+export type VasilhameItemVenda = {
+  devolvidos: number;
+  vendidos: number;
+  emprestados: number;
+};
+
+type ItemNovaVenda = Omit<InsertItemVenda, "vendaId"> & { vasilhame?: VasilhameItemVenda };
+type DescontoNovaVenda = Omit<InsertDescontoVenda, "vendaId">;
+
+export type VendaAPrazo = { vencimento: Date };
+
+// Sem depósito informado, a venda sai do depósito do vendedor ou do padrão
+export type VendaNova = InsertVenda & { depositoId?: number };
+
+/**
+ * Grava venda, itens, baixa de estoque, cascos, descontos e, se for fiado,
+ * a conta a receber dentro de uma transação já aberta
+ */
+async function inserirVenda(tx: DbTransaction, novaVenda: VendaNova, itens: ItemNovaVenda[], descontos: DescontoNovaVenda[], aPrazo?: VendaAPrazo) {
+  const { depositoId: depositoInformado, ...venda } = novaVenda;
+  
+  let depositoVendedor: number | undefined;
+  if (!depositoInformado) {
+    const vinculo = await tx.select({ depositoId: depositosVendedor.depositoId })
+      .from(depositosVendedor)
+      .where(eq(depositosVendedor.vendedorId, venda.vendedorId))
+      .limit(1);
+    depositoVendedor = vinculo.length > 0 ? vinculo[0].depositoId : undefined;
+  }
+  const depositoId = await resolverDeposito(tx, depositoInformado ?? depositoVendedor);
+  
+  // Inserir venda
+  const resultVenda = await tx.insert(vendas).values(venda);
+  const vendaId = Number(resultVenda[0].insertId);
+  await tx.insert(depositosVenda).values({ vendaId, depositoId });
+  
+  // Inserir itens e atualizar estoque
+  for (const { vasilhame, ...item } of itens) {
+    await tx.insert(itensVenda).values({
+      ...item,
+      vendaId
+    });
+    
+    // Dar baixa no estoque
+    await movimentarEstoque(
+      tx,
+      depositoId,
+      item.produtoId, 
+      "saida", 
+      item.quantidade, 
+      venda.usuarioId || undefined,
+      `Venda #${vendaId}`
+    );
+    
+    // Registrar o destino dos cascos: trocados, vendidos ou emprestados
+    if (vasilhame) {
+      const movimentos = [
+        { tipo: "troca" as const, quantidade: vasilhame.devolvidos, variacaoEstoque: vasilhame.devolvidos, variacaoEmprestimo: 0 },
+        { tipo: "venda_casco" as const, quantidade: vasilhame.vendidos, variacaoEstoque: 0, variacaoEmprestimo: 0 },
+        { tipo: "emprestimo" as const, quantidade: vasilhame.emprestados, variacaoEstoque: 0, variacaoEmprestimo: vasilhame.emprestados },
+      ];
+      for (const movimento of movimentos) {
+        if (movimento.quantidade === 0) continue;
+        await movimentarVasilhames(tx, {
+          ...movimento,
+          produtoId: item.produtoId,
+          clienteId: venda.clienteId,
+          vendaId,
+          usuarioId: venda.usuarioId || undefined,
+          observacao: `Venda #${vendaId}`
+        });
+      }
+    }
+  }
+  
+  // Registrar descontos concedidos para auditoria
+  if (descontos.length > 0) {
+    await tx.insert(descontosVenda).values(
+      descontos.map(desconto => ({ ...desconto, vendaId }))
+    );
+  }
+  
+  // Venda fiado gera a conta a receber do cliente
+  if (aPrazo) {
+    await tx.insert(contasReceber).values({
+      clienteId: venda.clienteId,
+      vendaId,
+      descricao: `Venda #${vendaId}`,
+      valor: venda.total,
+      vencimento: aPrazo.vencimento,
+      usuarioId: venda.usuarioId
+    });
+  }
+  
+  return vendaId;
+}
+
+export async function createVenda(venda: VendaNova, itens: ItemNovaVenda[], descontos: DescontoNovaVenda[] = [], aPrazo?: VendaAPrazo) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Venda, itens e baixa de estoque são gravados juntos ou nada é gravado
+  return await db.transaction(async (tx) => {
+    return await inserirVenda(tx, venda, itens, descontos, aPrazo);
+  });
+}
+
+export type FormaPagamentoVenda = InsertVenda["formaPagamento"] | "fiado";
+
+// Vendas com conta a receber são exibidas como fiado
+const formaPagamentoVenda = sql<FormaPagamentoVenda>`CASE WHEN ${contasReceber.id} IS NOT NULL THEN 'fiado' ELSE ${vendas.formaPagamento} END`;
+
+export async function getVendas(filtros?: {
+  clienteId?: number;
+  vendedorId?: number;
+  depositoId?: number;
+  dataInicio?: Date;
+  dataFim?: Date;
+  apenasAtivas?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  // Vendas canceladas ficam fora por padrão (relatórios e totais)
+  if (filtros?.apenasAtivas !== false) {
+    conditions.push(isNull(cancelamentosVenda.id));
+  }
+  
+  if (filtros?.clienteId) {
+    conditions.push(eq(vendas.clienteId, filtros.clienteId));
+  }
+  
+  if (filtros?.vendedorId) {
+    conditions.push(eq(vendas.vendedorId, filtros.vendedorId));
+  }
+  
+  if (filtros?.depositoId) {
+    conditions.push(eq(depositosVenda.depositoId, filtros.depositoId));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(vendas.criadoEm, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(vendas.criadoEm, filtros.dataFim));
+  }
+  
+  return await db
+    .select({
+      id: vendas.id,
+      clienteId: vendas.clienteId,
+      clienteNome: clientes.nome,
       vendedorId: vendas.vendedorId,
       vendedorNome: vendedores.nome,
-      formaPagamento: vendas.formaPagamento,
-      total: vendas.total,
-      lucro: vendas.lucro,
-      observacoes: vendas.observacoes,
+      depositoId: depositosVenda.depositoId,
+      depositoNome: depositos.nome,
+      formaPagamento: formaPagamentoVenda,
+      total: vendas.total,
+      lucro: vendas.lucro,
+      observacoes: vendas.observacoes,
+      cancelada: sql<boolean>`${cancelamentosVenda.id} IS NOT NULL`.mapWith(Boolean),
+      motivoCancelamento: cancelamentosVenda.motivo,
+      canceladaEm: cancelamentosVenda.criadoEm,
+      criadoEm: vendas.criadoEm
+    })
+    .from(vendas)
+    .leftJoin(clientes, eq(vendas.clienteId, clientes.id))
+    .leftJoin(vendedores, eq(vendas.vendedorId, vendedores.id))
+    .leftJoin(depositosVenda, eq(vendas.id, depositosVenda.vendaId))
+    .leftJoin(depositos, eq(depositosVenda.depositoId, depositos.id))
+    .leftJoin(cancelamentosVenda, eq(vendas.id, cancelamentosVenda.vendaId))
+    .leftJoin(contasReceber, eq(vendas.id, contasReceber.vendaId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(vendas.criadoEm));
+}
+
+export async function getVendaById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const venda = await db
+    .select({
+      id: vendas.id,
+      clienteId: vendas.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      vendedorId: vendas.vendedorId,
+      vendedorNome: vendedores.nome,
+      depositoId: depositosVenda.depositoId,
+      depositoNome: depositos.nome,
+      formaPagamento: formaPagamentoVenda,
+      total: vendas.total,
+      lucro: vendas.lucro,
+      observacoes: vendas.observacoes,
+      cancelada: sql<boolean>`${cancelamentosVenda.id} IS NOT NULL`.mapWith(Boolean),
+      motivoCancelamento: cancelamentosVenda.motivo,
+      canceladaEm: cancelamentosVenda.criadoEm,
+      criadoEm: vendas.criadoEm
+    })
+    .from(vendas)
+    .leftJoin(clientes, eq(vendas.clienteId, clientes.id))
+    .leftJoin(vendedores, eq(vendas.vendedorId, vendedores.id))
+    .leftJoin(depositosVenda, eq(vendas.id, depositosVenda.vendaId))
+    .leftJoin(depositos, eq(depositosVenda.depositoId, depositos.id))
+    .leftJoin(cancelamentosVenda, eq(vendas.id, cancelamentosVenda.vendaId))
+    .leftJoin(contasReceber, eq(vendas.id, contasReceber.vendaId))
+    .where(eq(vendas.id, id))
+    .limit(1);
+  
+  if (venda.length === 0) return undefined;
+  
+  const itens = await db
+    .select({
+      id: itensVenda.id,
+      produtoId: itensVenda.produtoId,
+      produtoNome: produtos.nome,
+      quantidade: itensVenda.quantidade,
+      precoUnitario: itensVenda.precoUnitario,
+      subtotal: itensVenda.subtotal
+    })
+    .from(itensVenda)
+    .leftJoin(produtos, eq(itensVenda.produtoId, produtos.id))
+    .where(eq(itensVenda.vendaId, id));
+  
+  const descontos = await db.select().from(descontosVenda).where(eq(descontosVenda.vendaId, id));
+  
+  return {
+    ...venda[0],
+    itens,
+    descontos
+  };
+}
+
+export async function getItensVendas(vendaIds: number[]) {
+  const db = await getDb();
+  if (!db || vendaIds.length === 0) return [];
+  
+  return await db
+    .select({
+      id: itensVenda.id,
+      vendaId: itensVenda.vendaId,
+      produtoId: itensVenda.produtoId,
+      produtoNome: produtos.nome,
+      produtoTipo: produtos.tipo,
+      quantidade: itensVenda.quantidade,
+      precoUnitario: itensVenda.precoUnitario,
+      subtotal: itensVenda.subtotal
+    })
+    .from(itensVenda)
+    .leftJoin(produtos, eq(itensVenda.produtoId, produtos.id))
+    .where(inArray(itensVenda.vendaId, vendaIds));
+}
+
+export async function cancelarVenda(vendaId: number, motivo: string, usuarioId?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Cancelamento e estorno do estoque são gravados juntos ou nada é gravado
+  return await db.transaction(async (tx) => {
+    // Bloquear a venda para que dois cancelamentos simultâneos não estornem em dobro
+    const venda = await tx.select({ id: vendas.id }).from(vendas).where(eq(vendas.id, vendaId)).limit(1).for("update");
+    if (venda.length === 0) {
+      throw new Error("Venda não encontrada");
+    }
+    
+    const cancelamentoExistente = await tx.select({ id: cancelamentosVenda.id })
+      .from(cancelamentosVenda)
+      .where(eq(cancelamentosVenda.vendaId, vendaId))
+      .limit(1);
+    if (cancelamentoExistente.length > 0) {
+      throw new Error("Venda já está cancelada");
+    }
+    
+    await tx.insert(cancelamentosVenda).values({
+      vendaId,
+      motivo,
+      usuarioId
+    });
+    
+    // Devolver cada item ao estoque do depósito de onde saiu
+    const deposito = await tx.select({ depositoId: depositosVenda.depositoId })
+      .from(depositosVenda)
+      .where(eq(depositosVenda.vendaId, vendaId))
+      .limit(1);
+    const depositoId = deposito.length > 0 ? deposito[0].depositoId : await resolverDeposito(tx);
+    
+    const itens = await tx.select().from(itensVenda).where(eq(itensVenda.vendaId, vendaId));
+    for (const item of itens) {
+      await movimentarEstoque(
+        tx,
+        depositoId,
+        item.produtoId,
+        "entrada",
+        item.quantidade,
+        usuarioId,
+        `Estorno da Venda #${vendaId}: ${motivo}`
+      );
+    }
+    
+    // Venda fiado: a conta a receber deixa de ser cobrada
+    await tx.update(contasReceber)
+      .set({ status: "cancelada" })
+      .where(and(eq(contasReceber.vendaId, vendaId), eq(contasReceber.status, "aberta")));
+    
+    // Desfazer trocas e empréstimos de vasilhames da venda. Cascos já
+    // devolvidos ou vazios que já saíram do estoque não podem ser retirados
+    // de novo, então o estorno se limita aos saldos atuais.
+    const movimentosVasilhame = await tx.select().from(movimentacoesVasilhames)
+      .where(eq(movimentacoesVasilhames.vendaId, vendaId));
+    for (const movimento of movimentosVasilhame) {
+      let variacaoEstoque = -movimento.variacaoEstoque;
+      let variacaoEmprestimo = -movimento.variacaoEmprestimo;
+      
+      if (variacaoEstoque < 0) {
+        const [vazios] = await tx.select({ quantidade: estoqueVasilhames.quantidade })
+          .from(estoqueVasilhames)
+          .where(eq(estoqueVasilhames.produtoId, movimento.produtoId))
+          .limit(1)
+          .for("update");
+        variacaoEstoque = -Math.min(-variacaoEstoque, Math.max(vazios?.quantidade ?? 0, 0));
+      }
+      
+      if (variacaoEmprestimo < 0 && movimento.clienteId) {
+        const emprestados = await getSaldoEmprestadoVasilhame(tx, movimento.clienteId, movimento.produtoId);
+        variacaoEmprestimo = -Math.min(-variacaoEmprestimo, Math.max(emprestados, 0));
+      }
+      
+      const limitado = variacaoEstoque !== -movimento.variacaoEstoque || variacaoEmprestimo !== -movimento.variacaoEmprestimo;
+      await movimentarVasilhames(tx, {
+        produtoId: movimento.produtoId,
+        clienteId: movimento.clienteId,
+        vendaId,
+        tipo: "estorno",
+        quantidade: movimento.quantidade,
+        variacaoEstoque,
+        variacaoEmprestimo,
+        usuarioId,
+        observacao: `Estorno da Venda #${vendaId}: ${motivo}`
+          + (limitado ? " (limitado aos saldos atuais de vasilhames)" : "")
+      });
+    }
+    
+    return { vendaId, itensEstornados: itens.length };
+  });
+}
+
+// ============ PEDIDOS ============
+export async function createPedido(pedido: InsertPedido, itens: Omit<InsertItemPedido, "pedidoId">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const resultPedido = await tx.insert(pedidos).values(pedido);
+    const pedidoId = Number(resultPedido[0].insertId);
+    
+    await tx.insert(itensPedido).values(
+      itens.map(item => ({ ...item, pedidoId }))
+    );
+    
+    return pedidoId;
+  });
+}
+
+export async function getPedidos(filtros?: {
+  status?: Pedido["status"][];
+  vendedorId?: number;
+  clienteId?: number;
+  semVendedor?: boolean;
+  dataInicio?: Date;
+  dataFim?: Date;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.status && filtros.status.length > 0) {
+    conditions.push(inArray(pedidos.status, filtros.status));
+  }
+  
+  if (filtros?.vendedorId) {
+    conditions.push(eq(pedidos.vendedorId, filtros.vendedorId));
+  }
+  
+  if (filtros?.semVendedor) {
+    conditions.push(isNull(pedidos.vendedorId));
+  }
+  
+  if (filtros?.clienteId) {
+    conditions.push(eq(pedidos.clienteId, filtros.clienteId));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(pedidos.criadoEm, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(pedidos.criadoEm, filtros.dataFim));
+  }
+  
+  return await db
+    .select({
+      id: pedidos.id,
+      clienteId: pedidos.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      vendedorId: pedidos.vendedorId,
+      vendedorNome: vendedores.nome,
+      status: pedidos.status,
+      origem: pedidos.origem,
+      endereco: pedidos.endereco,
+      bairro: pedidos.bairro,
+      regiao: pedidos.regiao,
+      horarioDesejado: pedidos.horarioDesejado,
+      formaPagamento: pedidos.formaPagamento,
+      observacoes: pedidos.observacoes,
+      vendaId: pedidos.vendaId,
+      criadoEm: pedidos.criadoEm,
+      saiuParaEntregaEm: pedidos.saiuParaEntregaEm,
+      entregueEm: pedidos.entregueEm
+    })
+    .from(pedidos)
+    .leftJoin(clientes, eq(pedidos.clienteId, clientes.id))
+    .leftJoin(vendedores, eq(pedidos.vendedorId, vendedores.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(pedidos.horarioDesejado, pedidos.criadoEm);
+}
+
+export async function getItensPedidos(pedidoIds: number[]) {
+  const db = await getDb();
+  if (!db || pedidoIds.length === 0) return [];
+  
+  return await db
+    .select({
+      id: itensPedido.id,
+      pedidoId: itensPedido.pedidoId,
+      produtoId: itensPedido.produtoId,
+      produtoNome: produtos.nome,
+      produtoTipo: produtos.tipo,
+      quantidade: itensPedido.quantidade
+    })
+    .from(itensPedido)
+    .leftJoin(produtos, eq(itensPedido.produtoId, produtos.id))
+    .where(inArray(itensPedido.pedidoId, pedidoIds));
+}
+
+export async function getPedidoById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(pedidos).where(eq(pedidos.id, id)).limit(1);
+  if (result.length === 0) return undefined;
+  
+  const itens = await getItensPedidos([id]);
+  
+  return {
+    ...result[0],
+    itens
+  };
+}
+
+export async function updatePedido(id: number, data: Partial<InsertPedido>, itens?: Omit<InsertItemPedido, "pedidoId">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    if (Object.keys(data).length > 0) {
+      await tx.update(pedidos).set(data).where(eq(pedidos.id, id));
+    }
+    
+    if (itens) {
+      await tx.delete(itensPedido).where(eq(itensPedido.pedidoId, id));
+      await tx.insert(itensPedido).values(
+        itens.map(item => ({ ...item, pedidoId: id }))
+      );
+    }
+  });
+}
+
+/**
+ * Muda o status do pedido somente se ele ainda estiver num dos status
+ * esperados, evitando que duas telas avancem o mesmo pedido
+ */
+export async function alterarStatusPedido(id: number, statusEsperados: Pedido["status"][], data: Partial<InsertPedido>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.update(pedidos)
+    .set(data)
+    .where(and(eq(pedidos.id, id), inArray(pedidos.status, statusEsperados)));
+  
+  if (result[0].affectedRows === 0) {
+    throw new Error("Pedido não encontrado ou com status diferente do esperado");
+  }
+  return result;
+}
+
+/**
+ * Conclui a entrega: cria a venda e marca o pedido como entregue na mesma transação
+ */
+export async function entregarPedido(pedidoId: number, venda: VendaNova, itens: ItemNovaVenda[], descontos: DescontoNovaVenda[] = [], aPrazo?: VendaAPrazo) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const pedido = await tx.select({ status: pedidos.status }).from(pedidos).where(eq(pedidos.id, pedidoId)).limit(1).for("update");
+    if (pedido.length === 0) {
+      throw new Error("Pedido não encontrado");
+    }
+    if (pedido[0].status !== "em_rota") {
+      throw new Error("Somente pedidos em rota podem ser entregues");
+    }
+    
+    const vendaId = await inserirVenda(tx, {
+      ...venda,
+      observacoes: [venda.observacoes, `Pedido #${pedidoId}`].filter(Boolean).join(" - ")
+    }, itens, descontos, aPrazo);
+    
+    await tx.update(pedidos)
+      .set({
+        status: "entregue",
+        vendaId,
+        formaPagamento: aPrazo ? "fiado" : venda.formaPagamento,
+        entregueEm: new Date()
+      })
+      .where(eq(pedidos.id, pedidoId));
+    
+    return vendaId;
+  });
+}
+
+// ============ CONTAS A RECEBER ============
+export async function createContaReceber(conta: InsertContaReceber) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(contasReceber).values(conta);
+}
+
+export async function getContasReceber(filtros?: {
+  clienteId?: number;
+  status?: ContaReceber["status"];
+  vencidas?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.clienteId) {
+    conditions.push(eq(contasReceber.clienteId, filtros.clienteId));
+  }
+  
+  if (filtros?.status) {
+    conditions.push(eq(contasReceber.status, filtros.status));
+  }
+  
+  if (filtros?.vencidas) {
+    conditions.push(eq(contasReceber.status, "aberta"));
+    conditions.push(lte(contasReceber.vencimento, new Date()));
+  }
+  
+  return await db
+    .select({
+      id: contasReceber.id,
+      clienteId: contasReceber.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      vendaId: contasReceber.vendaId,
+      descricao: contasReceber.descricao,
+      valor: contasReceber.valor,
+      valorPago: contasReceber.valorPago,
+      saldo: sql<number>`${contasReceber.valor} - ${contasReceber.valorPago}`.mapWith(Number),
+      vencimento: contasReceber.vencimento,
+      status: contasReceber.status,
+      ultimoLembreteEm: contasReceber.ultimoLembreteEm,
+      criadoEm: contasReceber.criadoEm,
+      quitadaEm: contasReceber.quitadaEm
+    })
+    .from(contasReceber)
+    .leftJoin(clientes, eq(contasReceber.clienteId, clientes.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(contasReceber.vencimento);
+}
+
+export async function getContaReceberById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(contasReceber).where(eq(contasReceber.id, id)).limit(1);
+  if (result.length === 0) return undefined;
+  
+  const pagamentos = await db
+    .select({
+      id: pagamentosContaReceber.id,
+      valor: pagamentosContaReceber.valor,
+      formaPagamento: pagamentosContaReceber.formaPagamento,
+      observacao: pagamentosContaReceber.observacao,
+      usuarioNome: users.name,
+      criadoEm: pagamentosContaReceber.criadoEm
+    })
+    .from(pagamentosContaReceber)
+    .leftJoin(users, eq(pagamentosContaReceber.usuarioId, users.id))
+    .where(eq(pagamentosContaReceber.contaReceberId, id))
+    .orderBy(pagamentosContaReceber.criadoEm);
+  
+  return {
+    ...result[0],
+    saldo: result[0].valor - result[0].valorPago,
+    pagamentos
+  };
+}
+
+/**
+ * Registra um pagamento (parcial ou total) e quita a conta quando o saldo zera
+ */
+export async function registrarPagamentoContaReceber(
+  contaReceberId: number,
+  valor: number,
+  formaPagamento: PagamentoContaReceber["formaPagamento"],
+  usuarioId?: string,
+  observacao?: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const result = await tx.select().from(contasReceber).where(eq(contasReceber.id, contaReceberId)).limit(1).for("update");
+    if (result.length === 0) {
+      throw new Error("Conta a receber não encontrada");
+    }
+    
+    const conta = result[0];
+    if (conta.status !== "aberta") {
+      throw new Error("Conta a receber não está em aberto");
+    }
+    
+    const saldo = Math.round((conta.valor - conta.valorPago) * 100) / 100;
+    if (valor > saldo + 0.001) {
+      throw new Error(`Valor maior que o saldo em aberto (${saldo})`);
+    }
+    
+    await tx.insert(pagamentosContaReceber).values({
+      contaReceberId,
+      valor,
+      formaPagamento,
+      observacao,
+      usuarioId
+    });
+    
+    const valorPago = Math.round((conta.valorPago + valor) * 100) / 100;
+    const quitada = valorPago >= conta.valor;
+    await tx.update(contasReceber)
+      .set({
+        valorPago,
+        status: quitada ? "paga" : "aberta",
+        quitadaEm: quitada ? new Date() : null
+      })
+      .where(eq(contasReceber.id, contaReceberId));
+    
+    return { contaReceberId, valorPago, saldo: Math.max(conta.valor - valorPago, 0), quitada };
+  });
+}
+
+export async function cancelarContaReceber(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(contasReceber)
+    .set({ status: "cancelada" })
+    .where(and(eq(contasReceber.id, id), eq(contasReceber.status, "aberta")));
+}
+
+export async function marcarLembreteContaReceber(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(contasReceber).set({ ultimoLembreteEm: new Date() }).where(eq(contasReceber.id, id));
+}
+
+// ============ DESPESAS ============
+export async function createDespesa(despesa: InsertDespesa) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(despesas).values(despesa);
+}
+
+export async function getDespesas(filtros?: {
+  dataInicio?: Date;
+  dataFim?: Date;
+  categoria?: string;
+  vendedorId?: number;
+  depositoId?: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.vendedorId) {
+    conditions.push(eq(despesas.vendedorId, filtros.vendedorId));
+  }
+  
+  // Despesas pertencem ao depósito do vendedor; as sem vendedor só entram no consolidado
+  if (filtros?.depositoId) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${depositosVendedor}
+      WHERE ${depositosVendedor.vendedorId} = ${despesas.vendedorId} AND ${depositosVendedor.depositoId} = ${filtros.depositoId}
+    )`);
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(despesas.data, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(despesas.data, filtros.dataFim));
+  }
+  
+  if (filtros?.categoria) {
+    conditions.push(eq(despesas.categoria, filtros.categoria));
+  }
+  
+  return await db
+    .select({
+      id: despesas.id,
+      descricao: despesas.descricao,
+      valor: despesas.valor,
+      categoria: despesas.categoria,
+      data: despesas.data,
+      vendedorId: despesas.vendedorId,
+      vendedorNome: vendedores.nome,
+      observacoes: despesas.observacoes,
+      usuarioNome: users.name,
+      criadoEm: despesas.criadoEm
+    })
+    .from(despesas)
+    .leftJoin(users, eq(despesas.usuarioId, users.id))
+    .leftJoin(vendedores, eq(despesas.vendedorId, vendedores.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(despesas.data));
+}
+
+export async function getDespesaById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(despesas).where(eq(despesas.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateDespesa(id: number, data: Partial<InsertDespesa>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(despesas)
+    .set(data)
+    .where(eq(despesas.id, id));
+}
+
+export async function deleteDespesa(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.delete(despesas).where(eq(despesas.id, id));
+}
+
+// ============ FORNECEDORES ============
+export async function createFornecedor(fornecedor: InsertFornecedor) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(fornecedores).values(fornecedor);
+}
+
+export async function getFornecedores(filtros?: {
+  busca?: string;
+  apenasAtivos?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.apenasAtivos !== false) {
+    conditions.push(eq(fornecedores.ativo, true));
+  }
+  
+  if (filtros?.busca) {
+    conditions.push(
+      sql`(${fornecedores.nome} LIKE ${`%${filtros.busca}%`} OR ${fornecedores.documento} LIKE ${`%${filtros.busca}%`})`
+    );
+  }
+  
+  return await db.select().from(fornecedores)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(fornecedores.nome);
+}
+
+export async function getFornecedorById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(fornecedores).where(eq(fornecedores.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateFornecedor(id: number, data: Partial<InsertFornecedor>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(fornecedores).set(data).where(eq(fornecedores.id, id));
+}
+
+// ============ COMPRAS ============
+export type CompraNova = Omit<InsertCompra, "depositoId" | "status" | "pagaEm" | "motivoCancelamento" | "canceladaEm"> & {
+  // Sem depósito, a mercadoria entra no padrão
+  depositoId?: number;
+  // Compra à vista já é gravada como paga
+  aPrazo: boolean;
+};
+
+export type ItemCompraNovo = Omit<InsertItemCompra, "compraId">;
+
+/**
+ * Grava a compra com os itens, dá entrada no estoque do depósito e atualiza
+ * o custo dos produtos, tudo na mesma transação
+ */
+export async function registrarCompra(compraNova: CompraNova, itens: ItemCompraNovo[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const { aPrazo, ...compra } = compraNova;
+  
+  return await db.transaction(async (tx) => {
+    const fornecedor = await tx.select({ nome: fornecedores.nome, ativo: fornecedores.ativo })
+      .from(fornecedores)
+      .where(eq(fornecedores.id, compra.fornecedorId))
+      .limit(1);
+    if (fornecedor.length === 0) {
+      throw new Error("Fornecedor não encontrado");
+    }
+    if (!fornecedor[0].ativo) {
+      throw new Error("Fornecedor inativo");
+    }
+    
+    const depositoId = await resolverDeposito(tx, compra.depositoId);
+    
+    const notaExistente = await tx.select({ id: compras.id })
+      .from(compras)
+      .where(and(
+        eq(compras.fornecedorId, compra.fornecedorId),
+        eq(compras.numeroNotaFiscal, compra.numeroNotaFiscal)
+      ))
+      .limit(1);
+    if (notaExistente.length > 0) {
+      throw new Error(`Nota fiscal ${compra.numeroNotaFiscal} já lançada na Compra #${notaExistente[0].id}`);
+    }
+    
+    const agora = new Date();
+    const result = await tx.insert(compras).values({
+      ...compra,
+      depositoId,
+      status: aPrazo ? "aberta" : "paga",
+      pagaEm: aPrazo ? null : agora
+    });
+    const compraId = Number(result[0].insertId);
+    
+    await tx.insert(itensCompra).values(itens.map(item => ({ ...item, compraId })));
+    
+    const observacao = `Compra #${compraId} - NF ${compra.numeroNotaFiscal} (${fornecedor[0].nome})`;
+    for (const item of itens) {
+      await movimentarEstoque(tx, depositoId, item.produtoId, "entrada", item.quantidade, compra.usuarioId ?? undefined, observacao);
+      
+      // precoCompra é inteiro e fica só como referência do cadastro; a venda
+      // usa o custo exato do item (precificacao.calcularVenda)
+      await tx.update(produtos)
+        .set({ precoCompra: Math.round(item.custoFinal) })
+        .where(eq(produtos.id, item.produtoId));
+    }
+    
+    return { compraId, depositoId };
+  });
+}
+
+/**
+ * Quita a conta a pagar da compra
+ */
+export async function pagarCompra(compraId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const result = await tx.select().from(compras).where(eq(compras.id, compraId)).limit(1).for("update");
+    if (result.length === 0) {
+      throw new Error("Compra não encontrada");
+    }
+    
+    const compra = result[0];
+    if (compra.status !== "aberta") {
+      throw new Error("Compra não está em aberto");
+    }
+    
+    const pagaEm = new Date();
+    await tx.update(compras).set({ status: "paga", pagaEm }).where(eq(compras.id, compraId));
+    
+    return { compraId, pagaEm };
+  });
+}
+
+/**
+ * Cancela a compra em aberto retirando do depósito o que entrou. Compra paga
+ * já saiu do caixa e é desfeita com uma devolução ao fornecedor, não aqui. O custo dos produtos não volta ao anterior.
+ */
+export async function cancelarCompra(compraId: number, motivo: string, usuarioId?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    // Bloquear a compra para que dois cancelamentos simultâneos não estornem em dobro
+    const result = await tx.select().from(compras).where(eq(compras.id, compraId)).limit(1).for("update");
+    if (result.length === 0) {
+      throw new Error("Compra não encontrada");
+    }
+    
+    const compra = result[0];
+    if (compra.status === "cancelada") {
+      throw new Error("Compra já está cancelada");
+    }
+    if (compra.status !== "aberta") {
+      throw new Error("Compra já paga não pode ser cancelada; registre a devolução ao fornecedor");
+    }
+    
+    const itens = await tx.select().from(itensCompra).where(eq(itensCompra.compraId, compraId));
+    for (const item of itens) {
+      await movimentarEstoque(
+        tx,
+        compra.depositoId,
+        item.produtoId,
+        "saida",
+        item.quantidade,
+        usuarioId,
+        `Estorno da Compra #${compraId}: ${motivo}`
+      );
+    }
+    
+    await tx.update(compras)
+      .set({ status: "cancelada", motivoCancelamento: motivo, canceladaEm: new Date() })
+      .where(eq(compras.id, compraId));
+    
+    return { compraId, itensEstornados: itens.length };
+  });
+}
+
+export async function getCompras(filtros?: {
+  fornecedorId?: number;
+  depositoId?: number;
+  status?: "aberta" | "paga" | "cancelada";
+  vencidas?: boolean;
+  dataInicio?: Date;
+  dataFim?: Date;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.fornecedorId) {
+    conditions.push(eq(compras.fornecedorId, filtros.fornecedorId));
+  }
+  
+  if (filtros?.depositoId) {
+    conditions.push(eq(compras.depositoId, filtros.depositoId));
+  }
+  
+  if (filtros?.status) {
+    conditions.push(eq(compras.status, filtros.status));
+  }
+  
+  if (filtros?.vencidas) {
+    conditions.push(eq(compras.status, "aberta"));
+    conditions.push(lt(compras.vencimento, new Date()));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(compras.dataEmissao, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(compras.dataEmissao, filtros.dataFim));
+  }
+  
+  return await db
+    .select({
+      id: compras.id,
+      fornecedorId: compras.fornecedorId,
+      fornecedorNome: fornecedores.nome,
+      depositoId: compras.depositoId,
+      depositoNome: depositos.nome,
+      numeroNotaFiscal: compras.numeroNotaFiscal,
+      dataEmissao: compras.dataEmissao,
+      valorProdutos: compras.valorProdutos,
+      frete: compras.frete,
+      valorTotal: compras.valorTotal,
+      vencimento: compras.vencimento,
+      status: compras.status,
+      usuarioNome: users.name,
+      criadoEm: compras.criadoEm,
+      pagaEm: compras.pagaEm
+    })
+    .from(compras)
+    .leftJoin(fornecedores, eq(compras.fornecedorId, fornecedores.id))
+    .leftJoin(depositos, eq(compras.depositoId, depositos.id))
+    .leftJoin(users, eq(compras.usuarioId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(compras.dataEmissao), desc(compras.id));
+}
+
+export async function getCompraById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db
+    .select({
+      compra: compras,
+      fornecedorNome: fornecedores.nome,
+      depositoNome: depositos.nome
+    })
+    .from(compras)
+    .leftJoin(fornecedores, eq(compras.fornecedorId, fornecedores.id))
+    .leftJoin(depositos, eq(compras.depositoId, depositos.id))
+    .where(eq(compras.id, id))
+    .limit(1);
+  if (result.length === 0) return undefined;
+  
+  const itens = await db
+    .select({
+      id: itensCompra.id,
+      produtoId: itensCompra.produtoId,
+      produtoNome: produtos.nome,
+      quantidade: itensCompra.quantidade,
+      custoUnitario: itensCompra.custoUnitario,
+      freteRateado: itensCompra.freteRateado,
+      custoFinal: itensCompra.custoFinal
+    })
+    .from(itensCompra)
+    .leftJoin(produtos, eq(itensCompra.produtoId, produtos.id))
+    .where(eq(itensCompra.compraId, id));
+  
+  return {
+    ...result[0].compra,
+    fornecedorNome: result[0].fornecedorNome,
+    depositoNome: result[0].depositoNome,
+    itens
+  };
+}
+
+/**
+ * Custo unitário exato, com frete e centavos, da última compra não cancelada
+ * de cada produto
+ */
+export async function getCustosUltimaCompra(produtoIds: number[]) {
+  const db = await getDb();
+  if (!db || produtoIds.length === 0) return new Map<number, number>();
+  
+  const ultimosItens = db.select({ id: sql<number>`MAX(${itensCompra.id})` })
+    .from(itensCompra)
+    .innerJoin(compras, eq(itensCompra.compraId, compras.id))
+    .where(and(inArray(itensCompra.produtoId, produtoIds), ne(compras.status, "cancelada")))
+    .groupBy(itensCompra.produtoId);
+  
+  const result = await db.select({ produtoId: itensCompra.produtoId, custoFinal: itensCompra.custoFinal })
+    .from(itensCompra)
+    .where(inArray(itensCompra.id, ultimosItens));
+  return new Map(result.map(r => [r.produtoId, r.custoFinal]));
+}
+
+// ============ CAIXA ============
+export async function abrirCaixa(vendedorId: number, valorAbertura: number, usuarioId?: string, observacoes?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    // Bloquear o vendedor para que duas aberturas simultâneas não passem
+    const vendedor = await tx.select({ id: vendedores.id }).from(vendedores).where(eq(vendedores.id, vendedorId)).limit(1).for("update");
+    if (vendedor.length === 0) {
+      throw new Error("Vendedor não encontrado");
+    }
+    
+    const aberto = await tx.select({ id: caixas.id })
+      .from(caixas)
+      .where(and(eq(caixas.vendedorId, vendedorId), eq(caixas.status, "aberto")))
+      .limit(1);
+    if (aberto.length > 0) {
+      throw new Error(`Vendedor já possui o caixa #${aberto[0].id} aberto`);
+    }
+    
+    const result = await tx.insert(caixas).values({
+      vendedorId,
+      valorAbertura,
+      observacoes,
+      usuarioAberturaId: usuarioId
+    });
+    return Number(result[0].insertId);
+  });
+}
+
+export async function getCaixas(filtros?: {
+  vendedorId?: number;
+  status?: Caixa["status"];
+  dataInicio?: Date;
+  dataFim?: Date;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.vendedorId) {
+    conditions.push(eq(caixas.vendedorId, filtros.vendedorId));
+  }
+  
+  if (filtros?.status) {
+    conditions.push(eq(caixas.status, filtros.status));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(caixas.abertoEm, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(caixas.abertoEm, filtros.dataFim));
+  }
+  
+  return await db
+    .select({
+      id: caixas.id,
+      vendedorId: caixas.vendedorId,
+      vendedorNome: vendedores.nome,
+      status: caixas.status,
+      valorAbertura: caixas.valorAbertura,
+      valorEsperado: caixas.valorEsperado,
+      valorContado: caixas.valorContado,
+      diferenca: caixas.diferenca,
+      abertoEm: caixas.abertoEm,
+      fechadoEm: caixas.fechadoEm
+    })
+    .from(caixas)
+    .leftJoin(vendedores, eq(caixas.vendedorId, vendedores.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(caixas.abertoEm));
+}
+
+export async function getCaixaById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(caixas).where(eq(caixas.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getMovimentacoesCaixa(caixaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select({
+      id: movimentacoesCaixa.id,
+      tipo: movimentacoesCaixa.tipo,
+      valor: movimentacoesCaixa.valor,
+      observacao: movimentacoesCaixa.observacao,
+      usuarioNome: users.name,
+      criadoEm: movimentacoesCaixa.criadoEm
+    })
+    .from(movimentacoesCaixa)
+    .leftJoin(users, eq(movimentacoesCaixa.usuarioId, users.id))
+    .where(eq(movimentacoesCaixa.caixaId, caixaId))
+    .orderBy(movimentacoesCaixa.criadoEm);
+}
+
+export async function registrarMovimentacaoCaixa(movimentacao: InsertMovimentacaoCaixa) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const caixa = await tx.select({ status: caixas.status }).from(caixas).where(eq(caixas.id, movimentacao.caixaId)).limit(1).for("update");
+    if (caixa.length === 0) {
+      throw new Error("Caixa não encontrado");
+    }
+    if (caixa[0].status !== "aberto") {
+      throw new Error("Caixa fechado não pode ser alterado");
+    }
+    
+    return await tx.insert(movimentacoesCaixa).values(movimentacao);
+  });
+}
+
+/**
+ * Grava o fechamento somente se o caixa ainda estiver aberto
+ */
+export async function fecharCaixa(id: number, fechamento: {
+  fechadoEm: Date;
+  valorEsperado: number;
+  valorContado: number;
+  diferenca: number;
+  resumo: unknown;
+  usuarioFechamentoId?: string;
+  observacoes?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.update(caixas)
+    .set({ ...fechamento, status: "fechado" })
+    .where(and(eq(caixas.id, id), eq(caixas.status, "aberto")));
+  
+  if (result[0].affectedRows === 0) {
+    throw new Error("Caixa não encontrado ou já fechado");
+  }
+  return result;
+}
+
+// ============ COMISSÕES ============
+export async function createRegraComissao(regra: InsertRegraComissao) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(regrasComissao).values(regra);
+}
+
+export async function getRegrasComissao(apenasAtivas = true) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select({
+      id: regrasComissao.id,
+      vendedorId: regrasComissao.vendedorId,
+      vendedorNome: vendedores.nome,
+      produtoTipo: regrasComissao.produtoTipo,
+      base: regrasComissao.base,
+      percentual: regrasComissao.percentual,
+      ativo: regrasComissao.ativo,
+      criadoEm: regrasComissao.criadoEm
+    })
+    .from(regrasComissao)
+    .leftJoin(vendedores, eq(regrasComissao.vendedorId, vendedores.id))
+    .where(apenasAtivas ? eq(regrasComissao.ativo, true) : undefined)
+    .orderBy(regrasComissao.vendedorId, regrasComissao.produtoTipo);
+}
+
+export async function updateRegraComissao(id: number, data: Partial<InsertRegraComissao>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(regrasComissao).set(data).where(eq(regrasComissao.id, id));
+}
+
+export async function deleteRegraComissao(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(regrasComissao).set({ ativo: false }).where(eq(regrasComissao.id, id));
+}
+
+/**
+ * Grava o extrato somente se não houver outro do vendedor cobrindo parte do
+ * mesmo período, para que nenhuma venda ou adiantamento conte duas vezes.
+ * O fim do período é exclusivo: um extrato pode começar onde o anterior termina.
+ */
+export async function createExtratoComissao(extrato: InsertExtratoComissao) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    await tx.select({ id: vendedores.id }).from(vendedores).where(eq(vendedores.id, extrato.vendedorId)).limit(1).for("update");
+    
+    const sobreposto = await tx.select({ id: extratosComissao.id })
+      .from(extratosComissao)
+      .where(and(
+        eq(extratosComissao.vendedorId, extrato.vendedorId),
+        lt(extratosComissao.periodoInicio, extrato.periodoFim),
+        gt(extratosComissao.periodoFim, extrato.periodoInicio)
+      ))
+      .limit(1);
+    if (sobreposto.length > 0) {
+      throw new Error(`Período já coberto pelo extrato #${sobreposto[0].id}`);
+    }
+    
+    const result = await tx.insert(extratosComissao).values(extrato);
+    return Number(result[0].insertId);
+  });
+}
+
+export async function getExtratosComissao(filtros?: {
+  vendedorId?: number;
+  status?: ExtratoComissao["status"];
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.vendedorId) {
+    conditions.push(eq(extratosComissao.vendedorId, filtros.vendedorId));
+  }
+  
+  if (filtros?.status) {
+    conditions.push(eq(extratosComissao.status, filtros.status));
+  }
+  
+  return await db
+    .select({
+      id: extratosComissao.id,
+      vendedorId: extratosComissao.vendedorId,
+      vendedorNome: vendedores.nome,
+      periodoInicio: extratosComissao.periodoInicio,
+      periodoFim: extratosComissao.periodoFim,
+      totalVendas: extratosComissao.totalVendas,
+      valorComissao: extratosComissao.valorComissao,
+      totalAdiantamentos: extratosComissao.totalAdiantamentos,
+      valorLiquido: extratosComissao.valorLiquido,
+      status: extratosComissao.status,
+      criadoEm: extratosComissao.criadoEm,
+      pagoEm: extratosComissao.pagoEm
+    })
+    .from(extratosComissao)
+    .leftJoin(vendedores, eq(extratosComissao.vendedorId, vendedores.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(extratosComissao.periodoInicio));
+}
+
+export async function getExtratoComissaoById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(extratosComissao).where(eq(extratosComissao.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function marcarExtratoComissaoPago(id: number, usuarioId?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.update(extratosComissao)
+    .set({ status: "pago", pagoEm: new Date(), usuarioPagamentoId: usuarioId })
+    .where(and(eq(extratosComissao.id, id), eq(extratosComissao.status, "fechado")));
+  
+  if (result[0].affectedRows === 0) {
+    throw new Error("Extrato não encontrado ou já pago");
+  }
+  return result;
+}
+
+// ============ MENSAGENS ============
+export async function createMensagem(mensagem: InsertMensagem) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(mensagens).values(mensagem);
+}
+
+// ============ MODELOS DE MENSAGEM ============
+export async function createModeloMensagem(modelo: InsertModeloMensagem) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(modelosMensagem).values(modelo);
+}
+
+export async function getModelosMensagem(filtros?: { tipo?: InsertModeloMensagem["tipo"]; apenasAtivos?: boolean }) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.apenasAtivos !== false) {
+    conditions.push(eq(modelosMensagem.ativo, true));
+  }
+  
+  if (filtros?.tipo) {
+    conditions.push(eq(modelosMensagem.tipo, filtros.tipo));
+  }
+  
+  return await db.select().from(modelosMensagem)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(modelosMensagem.nome);
+}
+
+export async function getModeloMensagemById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(modelosMensagem).where(eq(modelosMensagem.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateModeloMensagem(id: number, data: Partial<InsertModeloMensagem>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(modelosMensagem).set(data).where(eq(modelosMensagem.id, id));
+}
+
+export async function deleteModeloMensagem(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(modelosMensagem).set({ ativo: false }).where(eq(modelosMensagem.id, id));
+}
+
+/**
+ * Última compra não cancelada do cliente com os produtos dela, do maior
+ * subtotal para o menor
+ */
+export async function getUltimaCompraCliente(clienteId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db
+    .select({ vendaId: vendas.id, criadoEm: vendas.criadoEm })
+    .from(vendas)
+    .leftJoin(cancelamentosVenda, eq(cancelamentosVenda.vendaId, vendas.id))
+    .where(and(eq(vendas.clienteId, clienteId), isNull(cancelamentosVenda.id)))
+    .orderBy(desc(vendas.criadoEm), desc(vendas.id))
+    .limit(1);
+  if (result.length === 0) return undefined;
+  
+  const itens = await db
+    .select({ produtoId: itensVenda.produtoId, produtoNome: produtos.nome, produtoTipo: produtos.tipo })
+    .from(itensVenda)
+    .innerJoin(produtos, eq(itensVenda.produtoId, produtos.id))
+    .where(eq(itensVenda.vendaId, result[0].vendaId))
+    .orderBy(desc(itensVenda.subtotal));
+  
+  return { ...result[0], itens };
+}
+
+// ============ FILA DE MENSAGENS ============
+// proximaTentativaEm guarda segundos e o MySQL arredonda os milissegundos
+// para cima; truncado, o item já está pronto para quem o busca em seguida
+function inicioDoSegundoAtual() {
+  return new Date(Math.floor(Date.now() / 1000) * 1000);
+}
+
+/**
+ * Grava a mensagem como pendente e a coloca na fila de envio; mensagens de
+ * campanha também são vinculadas à campanha
+ */
+export async function enfileirarMensagem(
+  mensagem: Omit<InsertMensagem, "status" | "dataEnvio">,
+  opcoes: { campanhaId?: number; maxTentativas: number; marketing: boolean }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const result = await tx.insert(mensagens).values({ ...mensagem, status: "pendente" });
+    const mensagemId = Number(result[0].insertId);
+    
+    if (opcoes.campanhaId) {
+      await tx.insert(mensagensCampanha).values({
+        campanhaId: opcoes.campanhaId,
+        clienteId: mensagem.clienteId,
+        mensagemId
+      });
+    }
+    
+    await tx.insert(filaMensagens).values({
+      mensagemId,
+      maxTentativas: opcoes.maxTentativas,
+      marketing: opcoes.marketing,
+      proximaTentativaEm: inicioDoSegundoAtual()
+    });
+    
+    return mensagemId;
+  });
+}
+
+/**
+ * Mensagens pendentes cuja próxima tentativa já chegou e que nenhuma
+ * instância está enviando
+ */
+export async function getMensagensFilaProntas(agora: Date, limite: number, mensagemId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [
+    eq(mensagens.status, "pendente"),
+    lte(filaMensagens.proximaTentativaEm, agora),
+    or(isNull(filaMensagens.bloqueadoAte), lt(filaMensagens.bloqueadoAte, agora))
+  ];
+  
+  if (mensagemId) {
+    conditions.push(eq(filaMensagens.mensagemId, mensagemId));
+  }
+  
+  return await db
+    .select({
+      id: filaMensagens.id,
+      mensagemId: filaMensagens.mensagemId,
+      tentativas: filaMensagens.tentativas,
+      maxTentativas: filaMensagens.maxTentativas,
+      marketing: filaMensagens.marketing,
+      clienteId: mensagens.clienteId,
+      clienteTelefone: clientes.telefone,
+      semConsentimento: sql<boolean>`COALESCE(${consentimentosMarketing.consentido}, false) = false`.mapWith(Boolean),
+      conteudo: mensagens.conteudo,
+      campanhaId: mensagensCampanha.campanhaId
+    })
+    .from(filaMensagens)
+    .innerJoin(mensagens, eq(filaMensagens.mensagemId, mensagens.id))
+    .leftJoin(clientes, eq(mensagens.clienteId, clientes.id))
+    .leftJoin(consentimentosMarketing, eq(mensagens.clienteId, consentimentosMarketing.clienteId))
+    .leftJoin(mensagensCampanha, eq(mensagensCampanha.mensagemId, mensagens.id))
+    .where(and(...conditions))
+    .orderBy(filaMensagens.proximaTentativaEm, filaMensagens.id)
+    .limit(limite);
+}
+
+/**
+ * Reivindica a mensagem para esta instância contando a tentativa; se outra
+ * instância chegou antes, nenhuma linha é afetada
+ */
+export async function bloquearMensagemFila(id: number, instancia: string, agora: Date, bloqueadoAte: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.update(filaMensagens)
+    .set({
+      bloqueadoPor: instancia,
+      bloqueadoAte,
+      tentativas: sql`${filaMensagens.tentativas} + 1`
+    })
+    .where(and(
+      eq(filaMensagens.id, id),
+      lte(filaMensagens.proximaTentativaEm, agora),
+      or(isNull(filaMensagens.bloqueadoAte), lt(filaMensagens.bloqueadoAte, agora))
+    ));
+  
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * Marca a mensagem como enviada e guarda o id do provedor, usado para
+ * receber as confirmações de entrega e leitura
+ */
+export async function registrarEnvioMensagemFila(id: number, mensagemId: number, provedorMensagemId?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const enviadaEm = new Date();
+    
+    await tx.update(mensagens)
+      .set({ status: "enviada", dataEnvio: enviadaEm })
+      .where(and(eq(mensagens.id, mensagemId), eq(mensagens.status, "pendente")));
+    
+    if (provedorMensagemId) {
+      await tx.insert(enviosMensagem).values({ mensagemId, provedorMensagemId, enviadaEm });
+    }
+    
+    await tx.update(filaMensagens)
+      .set({ ultimoErro: null, bloqueadoPor: null, bloqueadoAte: null })
+      .where(eq(filaMensagens.id, id));
+  });
+}
+
+/**
+ * Registra a falha da tentativa: reagenda, ou marca a mensagem como erro
+ * quando não há próxima tentativa
+ */
+export async function registrarFalhaMensagemFila(id: number, mensagemId: number, erro: string, proximaTentativaEm: Date | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    if (!proximaTentativaEm) {
+      await tx.update(mensagens)
+        .set({ status: "erro" })
+        .where(and(eq(mensagens.id, mensagemId), eq(mensagens.status, "pendente")));
+    }
+    
+    await tx.update(filaMensagens)
+      .set({
+        ultimoErro: erro,
+        proximaTentativaEm: proximaTentativaEm ?? new Date(),
+        bloqueadoPor: null,
+        bloqueadoAte: null
+      })
+      .where(eq(filaMensagens.id, id));
+  });
+}
+
+/**
+ * Devolve à fila as mensagens com erro, zerando as tentativas. Mensagens com
+ * erro anteriores à fila ganham a entrada que faltava.
+ */
+export async function reenfileirarMensagens(mensagemIds: number[], maxTentativas: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (mensagemIds.length === 0) return 0;
+  
+  return await db.transaction(async (tx) => {
+    const comErro = await tx.select({ id: mensagens.id })
+      .from(mensagens)
+      .where(and(inArray(mensagens.id, mensagemIds), eq(mensagens.status, "erro")))
+      .for("update");
+    if (comErro.length === 0) return 0;
+    
+    const ids = comErro.map(m => m.id);
+    const agora = inicioDoSegundoAtual();
+    
+    await tx.update(mensagens)
+      .set({ status: "pendente" })
+      .where(inArray(mensagens.id, ids));
+    
+    await tx.insert(filaMensagens)
+      .values(ids.map(mensagemId => ({ mensagemId, maxTentativas, proximaTentativaEm: agora })))
+      .onDuplicateKeyUpdate({
+        set: {
+          tentativas: 0,
+          proximaTentativaEm: agora,
+          ultimoErro: null,
+          bloqueadoPor: null,
+          bloqueadoAte: null
+        }
+      });
+    
+    return ids.length;
+  });
+}
+
+export async function getMensagens(filtros?: {
+  clienteId?: number;
+  tipo?: string;
+  status?: string;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [];
+  
+  if (filtros?.clienteId) {
+    conditions.push(eq(mensagens.clienteId, filtros.clienteId));
+  }
+  
+  if (filtros?.tipo) {
+    conditions.push(eq(mensagens.tipo, filtros.tipo as any));
+  }
+  
+  if (filtros?.status) {
+    conditions.push(eq(mensagens.status, filtros.status as any));
+  }
+  
+  return await db
+    .select({
+      id: mensagens.id,
+      clienteId: mensagens.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      tipo: mensagens.tipo,
+      conteudo: mensagens.conteudo,
+      status: mensagens.status,
+      dataEnvio: mensagens.dataEnvio,
+      entregueEm: enviosMensagem.entregueEm,
+      lidaEm: enviosMensagem.lidaEm,
+      tentativas: filaMensagens.tentativas,
+      ultimoErro: filaMensagens.ultimoErro,
+      criadoEm: mensagens.criadoEm
+    })
+    .from(mensagens)
+    .leftJoin(clientes, eq(mensagens.clienteId, clientes.id))
+    .leftJoin(enviosMensagem, eq(mensagens.id, enviosMensagem.mensagemId))
+    .leftJoin(filaMensagens, eq(mensagens.id, filaMensagens.mensagemId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(mensagens.criadoEm));
+}
+
+/**
+ * Aplica a confirmação do provedor: grava o horário da transição e avança o
+ * status da mensagem. Confirmações atrasadas nunca fazem o status voltar.
+ * Retorna false quando o id do provedor ainda não foi registrado.
+ */
+export async function atualizarStatusEnvioMensagem(provedorMensagemId: string, status: "entregue" | "lida", em: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const envio = await tx.select().from(enviosMensagem)
+      .where(eq(enviosMensagem.provedorMensagemId, provedorMensagemId))
+      .limit(1)
+      .for("update");
+    if (envio.length === 0) return false;
+    
+    // Leitura implica entrega: preenche os dois horários se a entrega não veio
+    await tx.update(enviosMensagem)
+      .set(status === "lida"
+        ? { lidaEm: envio[0].lidaEm ?? em, entregueEm: envio[0].entregueEm ?? em }
+        : { entregueEm: envio[0].entregueEm ?? em })
+      .where(eq(enviosMensagem.id, envio[0].id));
+    
+    await tx.update(mensagens)
+      .set({ status })
+      .where(and(
+        eq(mensagens.id, envio[0].mensagemId),
+        inArray(mensagens.status, status === "lida" ? ["pendente", "enviada", "entregue"] : ["pendente", "enviada"])
+      ));
+    
+    return true;
+  });
+}
+
+// ============ CONSENTIMENTO (LGPD) ============
+/**
+ * Grava a mudança no histórico e atualiza a situação atual do cliente
+ */
+export async function registrarConsentimento(registro: InsertHistoricoConsentimento) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    await tx.insert(historicoConsentimento).values(registro);
+    
+    await tx.insert(consentimentosMarketing).values({
+      clienteId: registro.clienteId,
+      consentido: registro.consentido,
+      origem: registro.origem
+    }).onDuplicateKeyUpdate({
+      set: { consentido: registro.consentido, origem: registro.origem }
+    });
+  });
+}
+
+export async function getConsentimentoCliente(clienteId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(consentimentosMarketing)
+    .where(eq(consentimentosMarketing.clienteId, clienteId))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getHistoricoConsentimento(clienteId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select().from(historicoConsentimento)
+    .where(eq(historicoConsentimento.clienteId, clienteId))
+    .orderBy(historicoConsentimento.criadoEm, historicoConsentimento.id);
+}
+
+/**
+ * Dentre os clientes informados, os que consentiram em receber marketing;
+ * quem não tem registro fica de fora
+ */
+export async function getClientesComConsentimento(clienteIds: number[]) {
+  const db = await getDb();
+  if (!db || clienteIds.length === 0) return [];
+  
+  const result = await db.select({ clienteId: consentimentosMarketing.clienteId })
+    .from(consentimentosMarketing)
+    .where(and(inArray(consentimentosMarketing.clienteId, clienteIds), eq(consentimentosMarketing.consentido, true)));
+  return result.map(r => r.clienteId);
+}
+
+// ============ MENSAGENS RECEBIDAS ============
+/**
+ * Grava a mensagem recebida; retorna undefined se o provedor já a entregou antes
+ */
+export async function createMensagemRecebida(mensagem: InsertMensagemRecebida) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Mensagem repetida pelo provedor não afeta nenhuma linha e volta undefined
+  const result = await db.insert(mensagensRecebidas).ignore().values(mensagem);
+  
+  return result[0].affectedRows === 1 && result[0].insertId > 0 ? result[0].insertId : undefined;
+}
+
+export async function getMensagensRecebidas(clienteId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select().from(mensagensRecebidas)
+    .where(eq(mensagensRecebidas.clienteId, clienteId))
+    .orderBy(mensagensRecebidas.recebidaEm);
+}
+
+export async function getMensagemRecebidaById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(mensagensRecebidas).where(eq(mensagensRecebidas.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateMensagemRecebida(id: number, data: Partial<InsertMensagemRecebida>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(mensagensRecebidas).set(data).where(eq(mensagensRecebidas.id, id));
+}
+
+/**
+ * Clientes com mensagens recebidas, da conversa mais recente para a mais antiga
+ */
+export async function getConversas(filtros?: { apenasNaoLidas?: boolean }) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const naoLidas = sql<number>`SUM(CASE WHEN ${mensagensRecebidas.lida} = false THEN 1 ELSE 0 END)`.mapWith(Number);
+  
+  return await db
+    .select({
+      clienteId: mensagensRecebidas.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      ultimaMensagemEm: sql<Date>`MAX(${mensagensRecebidas.recebidaEm})`.mapWith(mensagensRecebidas.recebidaEm),
+      totalRecebidas: sql<number>`COUNT(*)`.mapWith(Number),
+      naoLidas
+    })
+    .from(mensagensRecebidas)
+    .leftJoin(clientes, eq(mensagensRecebidas.clienteId, clientes.id))
+    .groupBy(mensagensRecebidas.clienteId, clientes.nome, clientes.telefone)
+    .having(filtros?.apenasNaoLidas ? sql`${naoLidas} > 0` : undefined)
+    .orderBy(desc(sql`MAX(${mensagensRecebidas.recebidaEm})`));
+}
+
+export async function marcarMensagensRecebidasLidas(clienteId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(mensagensRecebidas)
+    .set({ lida: true })
+    .where(and(eq(mensagensRecebidas.clienteId, clienteId), eq(mensagensRecebidas.lida, false)));
+}
+
+export async function updateMensagemStatus(id: number, status: "pendente" | "enviada" | "erro" | "entregue" | "lida") {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(mensagens).set({ status }).where(eq(mensagens.id, id));
+}
+
+// ============ LEMBRETES DE RECOMPRA ============
+/**
+ * Datas de compra de um tipo de produto por cliente ativo, sem vendas canceladas
+ */
+export async function getHistoricoCompras(produtoTipo: "gas_p13" | "agua_mineral" | "agua_dessalinizada", desde?: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [
+    eq(produtos.tipo, produtoTipo),
+    eq(clientes.ativo, true),
+    isNull(cancelamentosVenda.id)
+  ];
+  
+  if (desde) {
+    conditions.push(gte(vendas.criadoEm, desde));
+  }
+  
+  return await db
+    .selectDistinct({
+      clienteId: vendas.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      vendaId: vendas.id,
       criadoEm: vendas.criadoEm
     })
     .from(vendas)
-    .leftJoin(clientes, eq(vendas.clienteId, clientes.id))
-    .leftJoin(vendedores, eq(vendas.vendedorId, vendedores.id))
-    .where(eq(vendas.id, id))
-    .limit(1);
+    .innerJoin(itensVenda, eq(itensVenda.vendaId, vendas.id))
+    .innerJoin(produtos, eq(itensVenda.produtoId, produtos.id))
+    .innerJoin(clientes, eq(vendas.clienteId, clientes.id))
+    .leftJoin(cancelamentosVenda, eq(vendas.id, cancelamentosVenda.vendaId))
+    .where(and(...conditions))
+    .orderBy(vendas.clienteId, vendas.criadoEm);
+}
+
+export async function getLembretesRecompra(clienteIds: number[]) {
+  const db = await getDb();
+  if (!db || clienteIds.length === 0) return [];
+  
+  return await db.select().from(lembretesRecompra)
+    .where(inArray(lembretesRecompra.clienteId, clienteIds))
+    .orderBy(desc(lembretesRecompra.criadoEm));
+}
+
+/**
+ * Registra o lembrete do ciclo; retorna false se o ciclo já tinha lembrete
+ */
+export async function registrarLembreteRecompra(lembrete: InsertLembreteRecompra) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Com INSERT IGNORE, a chave já existente não afeta nenhuma linha. Um
+  // ON DUPLICATE KEY UPDATE sem mudança contaria 1 linha, porque o mysql2
+  // conecta com CLIENT_FOUND_ROWS.
+  const result = await db.insert(lembretesRecompra).ignore().values(lembrete);
+  
+  return result[0].affectedRows === 1;
+}
+
+export async function vincularMensagemLembreteRecompra(clienteId: number, ultimaCompraEm: Date, mensagemId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(lembretesRecompra)
+    .set({ mensagemId })
+    .where(and(eq(lembretesRecompra.clienteId, clienteId), eq(lembretesRecompra.ultimaCompraEm, ultimaCompraEm)));
+}
+
+/**
+ * Desfaz o registro do lembrete que não chegou à fila, para que o ciclo
+ * seja tentado de novo na próxima execução
+ */
+export async function removerLembreteRecompra(clienteId: number, ultimaCompraEm: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.delete(lembretesRecompra)
+    .where(and(
+      eq(lembretesRecompra.clienteId, clienteId),
+      eq(lembretesRecompra.ultimaCompraEm, ultimaCompraEm),
+      isNull(lembretesRecompra.mensagemId)
+    ));
+}
+
+// ============ CAMPANHAS ============
+export async function createCampanha(campanha: InsertCampanha) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(campanhas).values(campanha);
+}
+
+export async function getCampanhas() {
+  const db = await getDb();
+  if (!db) return [];
   
-  if (venda.length === 0) return undefined;
+  return await db.select().from(campanhas).orderBy(desc(campanhas.criadoEm));
+}
+
+export async function getCampanhaById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
   
-  const itens = await db
+  const result = await db.select().from(campanhas).where(eq(campanhas.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateCampanha(id: number, data: Partial<InsertCampanha>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(campanhas).set(data).where(eq(campanhas.id, id));
+}
+
+export async function getCampanhasAgendadasVencidas(agora: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select().from(campanhas)
+    .where(and(eq(campanhas.status, "agendada"), lte(campanhas.dataAgendamento, agora)))
+    .orderBy(campanhas.dataAgendamento);
+}
+
+/**
+ * Marca a campanha como enviada depois que todas as mensagens estão na fila,
+ * somente se ainda estiver em rascunho ou agendada. totalEnviadas não é
+ * zerado: a fila pode ter entregue parte delas durante o enfileiramento.
+ */
+export async function concluirEnfileiramentoCampanha(id: number, totalClientes: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.update(campanhas)
+    .set({ status: "enviada", dataEnvio: new Date(), totalClientes })
+    .where(and(eq(campanhas.id, id), inArray(campanhas.status, ["rascunho", "agendada"])));
+  
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * Cancela a campanha ainda não enviada. Mensagens de um disparo interrompido
+ * que seguem pendentes na fila deixam de ser entregues.
+ */
+export async function cancelarCampanha(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.transaction(async (tx) => {
+    const result = await tx.update(campanhas)
+      .set({ status: "cancelada" })
+      .where(and(eq(campanhas.id, id), inArray(campanhas.status, ["rascunho", "agendada"])));
+    if (result[0].affectedRows === 0) return false;
+    
+    const vinculadas = tx.select({ mensagemId: mensagensCampanha.mensagemId })
+      .from(mensagensCampanha)
+      .where(eq(mensagensCampanha.campanhaId, id));
+    await tx.update(mensagens)
+      .set({ status: "erro" })
+      .where(and(inArray(mensagens.id, vinculadas), eq(mensagens.status, "pendente")));
+    
+    return true;
+  });
+}
+
+/**
+ * Andamento da campanha contado pela situação das mensagens na fila
+ */
+export async function getProgressoCampanha(campanhaId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const contagem = await db
     .select({
-      id: itensVenda.id,
-      produtoId: itensVenda.produtoId,
-      produtoNome: produtos.nome,
-      quantidade: itensVenda.quantidade,
-      precoUnitario: itensVenda.precoUnitario,
-      subtotal: itensVenda.subtotal
+      status: mensagens.status,
+      quantidade: sql<number>`COUNT(*)`.mapWith(Number)
     })
-    .from(itensVenda)
-    .leftJoin(produtos, eq(itensVenda.produtoId, produtos.id))
-    .where(eq(itensVenda.vendaId, id));
+    .from(mensagensCampanha)
+    .innerJoin(mensagens, eq(mensagensCampanha.mensagemId, mensagens.id))
+    .where(eq(mensagensCampanha.campanhaId, campanhaId))
+    .groupBy(mensagens.status);
+  
+  const porStatus = { pendente: 0, enviada: 0, erro: 0, entregue: 0, lida: 0 };
+  for (const linha of contagem) {
+    porStatus[linha.status] = linha.quantidade;
+  }
   
+  const total = contagem.reduce((sum, linha) => sum + linha.quantidade, 0);
   return {
-    ...venda[0],
-    itens
+    campanhaId,
+    total,
+    ...porStatus,
+    concluida: total > 0 && porStatus.pendente === 0,
   };
 }
 
-// ============ DESPESAS ============
-export async function createDespesa(despesa: InsertDespesa) {
+export async function incrementarEnviadasCampanha(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.insert(despesas).values(despesa);
+  return await db.update(campanhas)
+    .set({ totalEnviadas: sql`${campanhas.totalEnviadas} + 1` })
+    .where(eq(campanhas.id, id));
 }
 
-export async function getDespesas(filtros?: {
-  dataInicio?: Date;
-  dataFim?: Date;
-  categoria?: string;
+export async function getMensagensCampanha(campanhaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select({
+      id: mensagens.id,
+      clienteId: mensagens.clienteId,
+      clienteNome: clientes.nome,
+      clienteTelefone: clientes.telefone,
+      conteudo: mensagens.conteudo,
+      status: mensagens.status,
+      dataEnvio: mensagens.dataEnvio,
+      criadoEm: mensagens.criadoEm
+    })
+    .from(mensagensCampanha)
+    .innerJoin(mensagens, eq(mensagensCampanha.mensagemId, mensagens.id))
+    .leftJoin(clientes, eq(mensagensCampanha.clienteId, clientes.id))
+    .where(eq(mensagensCampanha.campanhaId, campanhaId))
+    .orderBy(mensagens.criadoEm);
+}
+
+/**
+ * Clientes ativos com telefone que atendem aos filtros estruturados de uma
+ * campanha. Datas de compra consideram apenas vendas não canceladas.
+ */
+export async function getClientesAudiencia(filtros: {
+  regioes?: string[];
+  bairros?: string[];
+  ultimaCompraAntes?: Date;
+  ultimaCompraDepois?: Date;
+  incluirSemCompras?: boolean;
+  produtoIds?: number[];
+  produtoTipos?: ("gas_p13" | "agua_mineral" | "agua_dessalinizada")[];
 }) {
   const db = await getDb();
   if (!db) return [];
   
-  const conditions = [];
+  const ultimaCompra = sql<Date | null>`(
+    SELECT MAX(${vendas.criadoEm}) FROM ${vendas}
+    LEFT JOIN ${cancelamentosVenda} ON ${cancelamentosVenda.vendaId} = ${vendas.id}
+    WHERE ${vendas.clienteId} = ${clientes.id} AND ${cancelamentosVenda.id} IS NULL
+  )`;
+  
+  const conditions = [
+    eq(clientes.ativo, true),
+    sql`${clientes.telefone} <> ''`,
+    // Campanhas só vão para quem consentiu; sem registro não há consentimento
+    sql`EXISTS (
+      SELECT 1 FROM ${consentimentosMarketing}
+      WHERE ${consentimentosMarketing.clienteId} = ${clientes.id} AND ${consentimentosMarketing.consentido} = true
+    )`
+  ];
+  
+  if (filtros.regioes && filtros.regioes.length > 0) {
+    conditions.push(inArray(clientes.regiao, filtros.regioes));
+  }
   
-  if (filtros?.dataInicio) {
-    conditions.push(gte(despesas.data, filtros.dataInicio));
+  if (filtros.bairros && filtros.bairros.length > 0) {
+    conditions.push(inArray(clientes.bairro, filtros.bairros));
   }
   
-  if (filtros?.dataFim) {
-    conditions.push(lte(despesas.data, filtros.dataFim));
+  if (filtros.ultimaCompraAntes) {
+    conditions.push(filtros.incluirSemCompras
+      ? sql`(${ultimaCompra} IS NULL OR ${ultimaCompra} < ${filtros.ultimaCompraAntes})`
+      : sql`${ultimaCompra} < ${filtros.ultimaCompraAntes}`);
   }
   
-  if (filtros?.categoria) {
-    conditions.push(eq(despesas.categoria, filtros.categoria));
+  if (filtros.ultimaCompraDepois) {
+    conditions.push(sql`${ultimaCompra} >= ${filtros.ultimaCompraDepois}`);
+  }
+  
+  const produtoConditions = [];
+  if (filtros.produtoIds && filtros.produtoIds.length > 0) {
+    produtoConditions.push(inArray(itensVenda.produtoId, filtros.produtoIds));
+  }
+  if (filtros.produtoTipos && filtros.produtoTipos.length > 0) {
+    produtoConditions.push(inArray(produtos.tipo, filtros.produtoTipos));
+  }
+  if (produtoConditions.length > 0) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${itensVenda}
+      INNER JOIN ${vendas} ON ${vendas.id} = ${itensVenda.vendaId}
+      INNER JOIN ${produtos} ON ${produtos.id} = ${itensVenda.produtoId}
+      LEFT JOIN ${cancelamentosVenda} ON ${cancelamentosVenda.vendaId} = ${vendas.id}
+      WHERE ${vendas.clienteId} = ${clientes.id} AND ${cancelamentosVenda.id} IS NULL AND ${and(...produtoConditions)}
+    )`);
   }
   
   return await db
     .select({
-      id: despesas.id,
-      descricao: despesas.descricao,
-      valor: despesas.valor,
-      categoria: despesas.categoria,
-      data: despesas.data,
-      vendedorId: despesas.vendedorId,
-      vendedorNome: vendedores.nome,
-      observacoes: despesas.observacoes,
-      usuarioNome: users.name,
-      criadoEm: despesas.criadoEm
+      id: clientes.id,
+      nome: clientes.nome,
+      telefone: clientes.telefone,
+      bairro: clientes.bairro,
+      regiao: clientes.regiao,
+      ultimaCompra
     })
-    .from(despesas)
-    .leftJoin(users, eq(despesas.usuarioId, users.id))
-    .leftJoin(vendedores, eq(despesas.vendedorId, vendedores.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
-    .orderBy(desc(despesas.data));
+    .from(clientes)
+    .where(and(...conditions))
+    .orderBy(clientes.nome);
 }
 
-export async function updateDespesa(id: number, data: Partial<InsertDespesa>) {
+// ============ CONFIG WHATSAPP ============
+export async function getConfigWhatsapp() {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(configWhatsapp).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function upsertConfigWhatsapp(config: Omit<InsertConfigWhatsapp, "id">) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.update(despesas)
-    .set(data)
-    .where(eq(despesas.id, id));
+  const existing = await getConfigWhatsapp();
+  
+  if (existing) {
+    return await db.update(configWhatsapp).set(config).where(eq(configWhatsapp.id, existing.id));
+  } else {
+    return await db.insert(configWhatsapp).values(config);
+  }
 }
 
-export async function deleteDespesa(id: number) {
+
+
+export async function getConfigProvedorWhatsapp() {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(configProvedorWhatsapp).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function definirProvedorWhatsapp(provedor: ConfigProvedorWhatsapp["provedor"]) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.delete(despesas).where(eq(despesas.id, id));
+  const existing = await getConfigProvedorWhatsapp();
+  
+  if (existing) {
+    return await db.update(configProvedorWhatsapp).set({ provedor }).where(eq(configProvedorWhatsapp.id, existing.id));
+  } else {
+    return await db.insert(configProvedorWhatsapp).values({ provedor });
+  }
 }
 
-// ============ MENSAGENS ============
-export async function createMensagem(mensagem: InsertMensagem) {
+// ============ ASSISTENTE DE PEDIDOS ============
+export async function getConfigAssistente() {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(configAssistente).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function upsertConfigAssistente(config: Omit<InsertConfigAssistente, "id">) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.insert(mensagens).values(mensagem);
+  const existing = await getConfigAssistente();
+  
+  if (existing) {
+    return await db.update(configAssistente).set(config).where(eq(configAssistente.id, existing.id));
+  } else {
+    return await db.insert(configAssistente).values(config);
+  }
 }
 
-export async function getMensagens(filtros?: {
-  clienteId?: number;
+// ============ TAREFAS AGENDADAS ============
+export async function createTarefaAgendada(tarefa: InsertTarefaAgendada) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(tarefasAgendadas).values(tarefa);
+}
+
+/**
+ * Cria a tarefa apenas se ainda não existir outra com a mesma chave
+ */
+export async function garantirTarefaAgendada(tarefa: InsertTarefaAgendada & { chave: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.insert(tarefasAgendadas).values(tarefa).onDuplicateKeyUpdate({
+    set: { chave: sql`${tarefasAgendadas.chave}` },
+  });
+}
+
+export async function getTarefaAgendadaByChave(chave: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(tarefasAgendadas).where(eq(tarefasAgendadas.chave, chave)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function atualizarPayloadTarefaAgendada(chave: string, payload: unknown) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return await db.update(tarefasAgendadas).set({ payload }).where(eq(tarefasAgendadas.chave, chave));
+}
+
+export async function getTarefasAgendadas(filtros?: {
   tipo?: string;
-  status?: string;
+  status?: TarefaAgendada["status"];
 }) {
   const db = await getDb();
   if (!db) return [];
   
   const conditions = [];
   
-  if (filtros?.clienteId) {
-    conditions.push(eq(mensagens.clienteId, filtros.clienteId));
-  }
-  
   if (filtros?.tipo) {
-    conditions.push(eq(mensagens.tipo, filtros.tipo as any));
+    conditions.push(eq(tarefasAgendadas.tipo, filtros.tipo));
   }
   
   if (filtros?.status) {
-    conditions.push(eq(mensagens.status, filtros.status as any));
+    conditions.push(eq(tarefasAgendadas.status, filtros.status));
   }
   
-  return await db
-    .select({
-      id: mensagens.id,
-      clienteId: mensagens.clienteId,
-      clienteNome: clientes.nome,
-      clienteTelefone: clientes.telefone,
-      tipo: mensagens.tipo,
-      conteudo: mensagens.conteudo,
-      status: mensagens.status,
-      dataEnvio: mensagens.dataEnvio,
-      criadoEm: mensagens.criadoEm
-    })
-    .from(mensagens)
-    .leftJoin(clientes, eq(mensagens.clienteId, clientes.id))
+  return await db.select().from(tarefasAgendadas)
     .where(conditions.length > 0 ? and(...conditions) : undefined)
-    .orderBy(desc(mensagens.criadoEm));
+    .orderBy(tarefasAgendadas.executarEm);
 }
 
-export async function updateMensagemStatus(id: number, status: "pendente" | "enviada" | "erro" | "entregue" | "lida") {
+/**
+ * Tarefas prontas para rodar: pendentes com horário vencido ou em execução
+ * com o bloqueio expirado (instância que caiu no meio da execução)
+ */
+export async function getTarefasProntas(agora: Date, limite: number) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return [];
   
-  return await db.update(mensagens).set({ status }).where(eq(mensagens.id, id));
+  return await db.select().from(tarefasAgendadas)
+    .where(and(
+      lte(tarefasAgendadas.executarEm, agora),
+      or(
+        eq(tarefasAgendadas.status, "pendente"),
+        and(eq(tarefasAgendadas.status, "executando"), lt(tarefasAgendadas.bloqueadoAte, agora))
+      )
+    ))
+    .orderBy(tarefasAgendadas.executarEm)
+    .limit(limite);
 }
 
-// ============ CAMPANHAS ============
-export async function createCampanha(campanha: InsertCampanha) {
+/**
+ * Reivindica a tarefa para esta instância com um UPDATE condicional; se
+ * outra instância chegou antes, nenhuma linha é afetada
+ */
+export async function bloquearTarefaAgendada(id: number, instancia: string, agora: Date, bloqueadoAte: Date) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.insert(campanhas).values(campanha);
-}
-
-export async function getCampanhas() {
-  const db = await getDb();
-  if (!db) return [];
+  const result = await db.update(tarefasAgendadas)
+    .set({
+      status: "executando",
+      bloqueadoPor: instancia,
+      bloqueadoAte,
+      ultimaExecucaoEm: agora,
+      tentativas: sql`${tarefasAgendadas.tentativas} + 1`
+    })
+    .where(and(
+      eq(tarefasAgendadas.id, id),
+      lte(tarefasAgendadas.executarEm, agora),
+      or(
+        eq(tarefasAgendadas.status, "pendente"),
+        and(eq(tarefasAgendadas.status, "executando"), lt(tarefasAgendadas.bloqueadoAte, agora))
+      )
+    ));
   
-  return await db.select().from(campanhas).orderBy(desc(campanhas.criadoEm));
+  return result[0].affectedRows > 0;
 }
 
-export async function getCampanhaById(id: number) {
+/**
+ * Atualiza a tarefa ao fim da execução, desde que esta instância ainda
+ * detenha o bloqueio
+ */
+export async function concluirTarefaAgendada(id: number, instancia: string, data: Partial<InsertTarefaAgendada>) {
   const db = await getDb();
-  if (!db) return undefined;
+  if (!db) throw new Error("Database not available");
   
-  const result = await db.select().from(campanhas).where(eq(campanhas.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return await db.update(tarefasAgendadas)
+    .set({ ...data, bloqueadoPor: null, bloqueadoAte: null })
+    .where(and(eq(tarefasAgendadas.id, id), eq(tarefasAgendadas.bloqueadoPor, instancia)));
 }
 
-export async function updateCampanha(id: number, data: Partial<InsertCampanha>) {
+export async function cancelarTarefaAgendada(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.update(campanhas).set(data).where(eq(campanhas.id, id));
+  return await db.update(tarefasAgendadas)
+    .set({ status: "cancelada" })
+    .where(and(eq(tarefasAgendadas.id, id), eq(tarefasAgendadas.status, "pendente")));
 }
 
-// ============ CONFIG WHATSAPP ============
-export async function getConfigWhatsapp() {
+// ============ AUDITORIA ============
+export async function createRegistroAuditoria(registro: InsertRegistroAuditoria) {
   const db = await getDb();
-  if (!db) return undefined;
+  if (!db) throw new Error("Database not available");
   
-  const result = await db.select().from(configWhatsapp).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return await db.insert(registrosAuditoria).values(registro);
 }
 
-export async function upsertConfigWhatsapp(config: Omit<InsertConfigWhatsapp, "id">) {
+export async function getRegistrosAuditoria(filtros?: {
+  entidade?: string;
+  entidadeId?: number;
+  usuarioId?: string;
+  acao?: InsertRegistroAuditoria["acao"];
+  dataInicio?: Date;
+  dataFim?: Date;
+  limite?: number;
+}) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return [];
   
-  const existing = await getConfigWhatsapp();
+  const conditions = [];
   
-  if (existing) {
-    return await db.update(configWhatsapp).set(config).where(eq(configWhatsapp.id, existing.id));
-  } else {
-    return await db.insert(configWhatsapp).values(config);
+  if (filtros?.entidade) {
+    conditions.push(eq(registrosAuditoria.entidade, filtros.entidade));
+  }
+  
+  if (filtros?.entidadeId) {
+    conditions.push(eq(registrosAuditoria.entidadeId, filtros.entidadeId));
+  }
+  
+  if (filtros?.usuarioId) {
+    conditions.push(eq(registrosAuditoria.usuarioId, filtros.usuarioId));
+  }
+  
+  if (filtros?.acao) {
+    conditions.push(eq(registrosAuditoria.acao, filtros.acao));
+  }
+  
+  if (filtros?.dataInicio) {
+    conditions.push(gte(registrosAuditoria.criadoEm, filtros.dataInicio));
+  }
+  
+  if (filtros?.dataFim) {
+    conditions.push(lte(registrosAuditoria.criadoEm, filtros.dataFim));
   }
+  
+  return await db.select().from(registrosAuditoria)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(registrosAuditoria.criadoEm), desc(registrosAuditoria.id))
+    .limit(filtros?.limite ?? 200);
 }
-
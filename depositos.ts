@@ -0,0 +1,14 @@
+import * as db from "./db";
+
+/**
+ * Garante o depósito padrão, que recebe o estoque e as vendas anteriores às
+ * filiais. Sem banco, só registra o erro para não impedir a subida do servidor.
+ */
+export async function iniciarDepositos() {
+  try {
+    const depositoId = await db.garantirDepositoPadrao();
+    console.log(`[Depósitos] Depósito padrão #${depositoId}`);
+  } catch (error) {
+    console.error("[Depósitos] Erro ao garantir o depósito padrão:", error);
+  }
+}
@@ -0,0 +1,194 @@
+import type { InsertMensagem } from "../drizzle/schema";
+import { INSTANCIA } from "./agendador";
+import * as db from "./db";
+import { enviarMensagem } from "./whatsappProvedor";
+
+// Tentativas antes de a mensagem ficar com erro: espera 1, 2, 4 e 8 minutos
+const MAX_TENTATIVAS = 5;
+const ESPERA_BASE_TENTATIVA_MS = 60 * 1000;
+// Pausa entre envios para não ser bloqueado pelo WhatsApp
+const INTERVALO_ENVIO_MS = 1500;
+// Tempo de posse de uma mensagem enquanto é enviada
+const DURACAO_BLOQUEIO_MS = 2 * 60 * 1000;
+// Um ciclo da fila para antes disso e continua no próximo
+const DURACAO_MAXIMA_CICLO_MS = 4 * 60 * 1000;
+const MENSAGENS_POR_LOTE = 20;
+// Gravações do envio já feito: tentativas e espera entre elas
+const TENTATIVAS_REGISTRO_ENVIO = 3;
+const ESPERA_REGISTRO_ENVIO_MS = 1000;
+
+const ERRO_SEM_CONSENTIMENTO = "Cliente não consentiu em receber mensagens de marketing";
+
+type ItemFila = Awaited<ReturnType<typeof db.getMensagensFilaProntas>>[number];
+
+let processando = false;
+
+/**
+ * Grava que a mensagem saiu. O provedor já aceitou o envio, então um erro
+ * aqui não pode devolver a mensagem à fila: tenta de novo algumas vezes e,
+ * se ainda assim falhar, só registra no log.
+ */
+async function registrarEnvio(item: ItemFila, messageId?: string) {
+  for (let tentativa = 1; tentativa <= TENTATIVAS_REGISTRO_ENVIO; tentativa++) {
+    try {
+      await db.registrarEnvioMensagemFila(item.id, item.mensagemId, messageId);
+      break;
+    } catch (error) {
+      if (tentativa === TENTATIVAS_REGISTRO_ENVIO) {
+        console.error(`[Fila] Mensagem #${item.mensagemId} enviada (${messageId}), mas o envio não foi gravado:`, error);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, ESPERA_REGISTRO_ENVIO_MS * tentativa));
+    }
+  }
+
+  if (item.campanhaId) {
+    try {
+      await db.incrementarEnviadasCampanha(item.campanhaId);
+    } catch (error) {
+      console.error(`[Fila] Erro ao contar envio da campanha #${item.campanhaId}:`, error);
+    }
+  }
+}
+
+/**
+ * Tenta entregar uma mensagem já reivindicada. Falha do provedor é tratada
+ * como temporária e reagendada; sem telefone não há o que tentar de novo.
+ */
+async function entregar(item: ItemFila) {
+  const agora = new Date();
+  const bloqueada = await db.bloquearMensagemFila(item.id, INSTANCIA, agora, new Date(agora.getTime() + DURACAO_BLOQUEIO_MS));
+  if (!bloqueada) return null;
+
+  const tentativas = item.tentativas + 1;
+
+  if (!item.clienteTelefone) {
+    await db.registrarFalhaMensagemFila(item.id, item.mensagemId, "Cliente não possui telefone cadastrado", null);
+    return { success: false, error: "Cliente não possui telefone cadastrado" };
+  }
+
+  // O cliente pode ter pedido para sair depois que a mensagem entrou na fila
+  if (item.marketing && item.semConsentimento) {
+    await db.registrarFalhaMensagemFila(item.id, item.mensagemId, ERRO_SEM_CONSENTIMENTO, null);
+    return { success: false, error: ERRO_SEM_CONSENTIMENTO };
+  }
+
+  let resultado: Awaited<ReturnType<typeof enviarMensagem>>;
+  try {
+    resultado = await enviarMensagem({ telefone: item.clienteTelefone, mensagem: item.conteudo });
+  } catch (error: any) {
+    resultado = { success: false, error: error?.message || String(error) };
+  }
+
+  if (resultado.success) {
+    await registrarEnvio(item, resultado.messageId);
+    return resultado;
+  }
+
+  const erro = resultado.error || "Erro ao enviar mensagem";
+  const proximaTentativaEm = tentativas < item.maxTentativas
+    ? new Date(Date.now() + ESPERA_BASE_TENTATIVA_MS * 2 ** (tentativas - 1))
+    : null;
+  await db.registrarFalhaMensagemFila(item.id, item.mensagemId, erro, proximaTentativaEm);
+  return resultado;
+}
+
+/**
+ * Envia as mensagens prontas da fila, uma de cada vez, até esvaziar ou
+ * atingir o tempo máximo do ciclo
+ */
+export async function processarFila() {
+  if (processando) return { enviadas: 0, falhas: 0 };
+  processando = true;
+
+  const inicio = Date.now();
+  let enviadas = 0;
+  let falhas = 0;
+
+  try {
+    while (Date.now() - inicio < DURACAO_MAXIMA_CICLO_MS) {
+      const prontas = await db.getMensagensFilaProntas(new Date(), MENSAGENS_POR_LOTE);
+      if (prontas.length === 0) break;
+
+      for (const item of prontas) {
+        if (Date.now() - inicio >= DURACAO_MAXIMA_CICLO_MS) break;
+
+        const resultado = await entregar(item);
+        if (!resultado) continue;
+        if (resultado.success) {
+          enviadas++;
+        } else {
+          falhas++;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, INTERVALO_ENVIO_MS));
+      }
+    }
+  } finally {
+    processando = false;
+  }
+
+  return { enviadas, falhas };
+}
+
+export function processarFilaEmSegundoPlano() {
+  processarFila().catch(error => {
+    console.error("[Fila] Erro ao processar fila de mensagens:", error);
+  });
+}
+
+/**
+ * Coloca a mensagem na fila de envio e dispara o processamento. Promoções e
+ * datas especiais são marketing; os demais tipos só quando indicado, como
+ * lembretes de recompra.
+ */
+export async function enfileirarMensagem(
+  mensagem: Omit<InsertMensagem, "status" | "dataEnvio">,
+  opcoes?: { campanhaId?: number; processar?: boolean; marketing?: boolean }
+) {
+  const mensagemId = await db.enfileirarMensagem(mensagem, {
+    campanhaId: opcoes?.campanhaId,
+    maxTentativas: MAX_TENTATIVAS,
+    marketing: opcoes?.marketing ?? (mensagem.tipo === "promocao" || mensagem.tipo === "data_especial"),
+  });
+
+  if (opcoes?.processar !== false) {
+    processarFilaEmSegundoPlano();
+  }
+
+  return mensagemId;
+}
+
+/**
+ * Coloca na fila e faz a primeira tentativa na hora, para quem precisa do
+ * resultado (envio manual pela tela). Se falhar, a fila tenta de novo depois.
+ */
+export async function enviarMensagemComFila(mensagem: Omit<InsertMensagem, "status" | "dataEnvio">) {
+  const mensagemId = await enfileirarMensagem(mensagem, { processar: false });
+
+  const [item] = await db.getMensagensFilaProntas(new Date(), 1, mensagemId);
+  const resultado = item ? await entregar(item) : null;
+
+  if (!resultado) {
+    processarFilaEmSegundoPlano();
+  }
+
+  return {
+    mensagemId,
+    enviada: !!resultado?.success,
+    messageId: resultado?.messageId,
+    erro: resultado && !resultado.success ? resultado.error : undefined,
+  };
+}
+
+/**
+ * Devolve à fila as mensagens com erro, por exemplo depois que a conexão do
+ * WhatsApp voltou
+ */
+export async function reenviarMensagens(mensagemIds: number[]) {
+  const reenfileiradas = await db.reenfileirarMensagens(mensagemIds, MAX_TENTATIVAS);
+  if (reenfileiradas > 0) {
+    processarFilaEmSegundoPlano();
+  }
+  return { reenfileiradas };
+}
@@ -0,0 +1,128 @@
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import type { InvokeResult, Message, Tool } from "./_core/llm";
+
+/**
+ * Substituto local do endpoint de chat completions, para testar o assistente
+ * sem rede. Aponte o servidor para ele com:
+ *
+ *   BUILT_IN_FORGE_API_URL=http://localhost:3999
+ *   BUILT_IN_FORGE_API_KEY=local
+ *
+ * e rode `pnpm llm:local`. Nos testes, use iniciarLLMLocal com um roteiro.
+ */
+
+export type RequisicaoLLMLocal = {
+  messages: Message[];
+  tools?: Tool[];
+};
+
+export type RespostaLLMLocal = {
+  content?: string;
+  tool_calls?: { name: string; arguments: unknown }[];
+};
+
+export type ResponderLLMLocal = (requisicao: RequisicaoLLMLocal) => RespostaLLMLocal | Promise<RespostaLLMLocal>;
+
+/**
+ * Responde com os passos na ordem, um por chamada ao modelo
+ */
+export function roteiroLLMLocal(passos: RespostaLLMLocal[]): ResponderLLMLocal {
+  let proximo = 0;
+  return () => {
+    if (proximo >= passos.length) {
+      throw new Error(`Roteiro do LLM local esgotado após ${passos.length} respostas`);
+    }
+    return passos[proximo++];
+  };
+}
+
+/**
+ * Resposta sem roteiro, para uso manual: consulta os produtos quando o
+ * cliente escreve e devolve o resultado da ferramenta como texto
+ */
+export const responderPadrao: ResponderLLMLocal = ({ messages, tools }) => {
+  const ultima = messages[messages.length - 1];
+  const temListarProdutos = tools?.some(tool => tool.function.name === "listar_produtos");
+
+  if (ultima?.role === "user" && temListarProdutos) {
+    return { tool_calls: [{ name: "listar_produtos", arguments: {} }] };
+  }
+  if (ultima?.role === "tool") {
+    return { content: `Resultado de ${ultima.name}: ${ultima.content}` };
+  }
+  return { content: "Olá! Em que posso ajudar?" };
+};
+
+async function lerCorpo(req: IncomingMessage) {
+  let corpo = "";
+  for await (const parte of req) {
+    corpo += parte;
+  }
+  return JSON.parse(corpo || "{}") as RequisicaoLLMLocal;
+}
+
+/**
+ * Sobe o servidor local. Porta 0 escolhe uma livre; as requisições recebidas
+ * ficam em `requisicoes` para conferência nos testes.
+ */
+export async function iniciarLLMLocal(responder: ResponderLLMLocal = responderPadrao, porta = 0) {
+  const requisicoes: RequisicaoLLMLocal[] = [];
+  let sequencia = 0;
+
+  const servidor = createServer(async (req, res) => {
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    try {
+      const requisicao = await lerCorpo(req);
+      requisicoes.push(requisicao);
+      const resposta = await responder(requisicao);
+      const id = ++sequencia;
+
+      const toolCalls = (resposta.tool_calls ?? []).map((chamada, i) => ({
+        id: `chamada-${id}-${i}`,
+        type: "function" as const,
+        function: { name: chamada.name, arguments: JSON.stringify(chamada.arguments ?? {}) },
+      }));
+
+      const resultado: InvokeResult = {
+        id: `local-${id}`,
+        created: Math.floor(Date.now() / 1000),
+        model: "llm-local",
+        choices: [{
+          index: 0,
+          message: {
+            role: "assistant",
+            content: resposta.content ?? "",
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+        }],
+      };
+
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(resultado));
+    } catch (error: any) {
+      res.writeHead(500, { "content-type": "text/plain" }).end(error?.message || String(error));
+    }
+  });
+
+  await new Promise<void>(resolve => servidor.listen(porta, "127.0.0.1", resolve));
+  const { port } = servidor.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requisicoes,
+    fechar: () => new Promise<void>((resolve, reject) => servidor.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const porta = Number(process.env.LLM_LOCAL_PORTA ?? 3999);
+  iniciarLLMLocal(responderPadrao, porta).then(({ url }) => {
+    console.log(`[LLM local] Ouvindo em ${url}; use BUILT_IN_FORGE_API_URL=${url} e qualquer BUILT_IN_FORGE_API_KEY`);
+  });
+}
@@ -0,0 +1,219 @@
+import type { Cliente } from "../drizzle/schema";
+import * as db from "./db";
+import { getProdutosComPrecoCliente } from "./precificacao";
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+const TIPOS_PRODUTO = ["gas_p13", "agua_mineral", "agua_dessalinizada"] as const;
+
+// {nome}, {preco:gas_p13} e, com texto para dado ausente, {bairro|seu bairro}
+const REGEX_PLACEHOLDER = /\{\s*([a-zA-Z]+)(?::([a-zA-Z0-9_]+))?\s*(?:\|([^{}]*))?\}/g;
+
+type DadosDestinatario = {
+  cliente: Pick<Cliente, "nome" | "bairro" | "regiao">;
+  ultimaCompra?: { criadoEm: Date; itens: { produtoNome: string }[] };
+  precos: Map<string, number>;
+  agora: Date;
+};
+
+type Placeholder = {
+  descricao: string;
+  exemplo: string;
+  // Usado quando o dado do cliente não existe e o modelo não informa outro
+  padrao: string;
+  argumentos?: readonly string[];
+  valor: (dados: DadosDestinatario, argumento?: string) => string | null | undefined;
+};
+
+function formatarValor(valor: number) {
+  return valor.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function primeiroNome(nome: string) {
+  return nome.trim().split(/\s+/)[0];
+}
+
+const PLACEHOLDERS: Record<string, Placeholder> = {
+  nome: {
+    descricao: "Nome completo do cliente",
+    exemplo: "Maria da Silva",
+    padrao: "cliente",
+    valor: ({ cliente }) => cliente.nome.trim(),
+  },
+  primeiroNome: {
+    descricao: "Primeiro nome do cliente",
+    exemplo: "Maria",
+    padrao: "cliente",
+    valor: ({ cliente }) => primeiroNome(cliente.nome),
+  },
+  bairro: {
+    descricao: "Bairro do cadastro",
+    exemplo: "Centro",
+    padrao: "seu bairro",
+    valor: ({ cliente }) => cliente.bairro?.trim(),
+  },
+  regiao: {
+    descricao: "Região do cadastro",
+    exemplo: "Zona Norte",
+    padrao: "sua região",
+    valor: ({ cliente }) => cliente.regiao?.trim(),
+  },
+  ultimoProduto: {
+    descricao: "Produto principal da última compra",
+    exemplo: "Gás P13",
+    padrao: "seu pedido",
+    valor: ({ ultimaCompra }) => ultimaCompra?.itens[0]?.produtoNome,
+  },
+  diasDesdeUltimaCompra: {
+    descricao: "Dias desde a última compra",
+    exemplo: "32",
+    padrao: "alguns",
+    valor: ({ ultimaCompra, agora }) => ultimaCompra
+      ? String(Math.max(0, Math.floor((agora.getTime() - ultimaCompra.criadoEm.getTime()) / DIA_MS)))
+      : null,
+  },
+  preco: {
+    descricao: "Preço para o cliente do produto do tipo informado, ex.: {preco:gas_p13}",
+    exemplo: formatarValor(110),
+    padrao: "consulte",
+    argumentos: TIPOS_PRODUTO,
+    valor: ({ precos }, tipo) => {
+      const preco = tipo ? precos.get(tipo) : undefined;
+      return preco === undefined ? null : formatarValor(preco);
+    },
+  },
+};
+
+/**
+ * Placeholders aceitos nos modelos, para exibir na tela de edição
+ */
+export function getPlaceholdersDisponiveis() {
+  return Object.entries(PLACEHOLDERS).map(([nome, placeholder]) => ({
+    nome,
+    sintaxe: placeholder.argumentos ? `{${nome}:${placeholder.argumentos[0]}}` : `{${nome}}`,
+    descricao: placeholder.descricao,
+    exemplo: placeholder.exemplo,
+    padrao: placeholder.padrao,
+    argumentos: placeholder.argumentos ?? [],
+  }));
+}
+
+function extrairPlaceholders(texto: string) {
+  return Array.from(texto.matchAll(REGEX_PLACEHOLDER), ([original, nome, argumento, alternativa]) => ({
+    original,
+    nome,
+    argumento,
+    alternativa,
+  }));
+}
+
+/**
+ * Rejeita placeholders desconhecidos, argumentos inválidos e chaves sem
+ * fechamento, para que o cliente nunca receba "{nmoe}" no meio do texto
+ */
+export function validarModelo(texto: string) {
+  const erros: string[] = [];
+
+  for (const { original, nome, argumento } of extrairPlaceholders(texto)) {
+    const placeholder = PLACEHOLDERS[nome];
+    if (!placeholder) {
+      erros.push(`${original} não é um placeholder conhecido`);
+    } else if (placeholder.argumentos && !placeholder.argumentos.includes(argumento ?? "")) {
+      erros.push(`${original} precisa de um destes tipos: ${placeholder.argumentos.join(", ")}`);
+    } else if (!placeholder.argumentos && argumento) {
+      erros.push(`${original} não aceita argumento`);
+    }
+  }
+
+  if (/[{}]/.test(texto.replace(REGEX_PLACEHOLDER, ""))) {
+    erros.push("Há chaves { } sem placeholder válido");
+  }
+
+  if (erros.length > 0) {
+    throw new Error(`Modelo de mensagem inválido: ${erros.join("; ")}`);
+  }
+
+  return extrairPlaceholders(texto).map(p => p.nome);
+}
+
+function preencher(texto: string, dados: DadosDestinatario) {
+  const ausentes: string[] = [];
+
+  const mensagem = texto.replace(REGEX_PLACEHOLDER, (original, nome: string, argumento?: string, alternativa?: string) => {
+    const placeholder = PLACEHOLDERS[nome];
+    const valor = placeholder.valor(dados, argumento);
+    if (valor) return valor;
+
+    ausentes.push(original);
+    return alternativa !== undefined ? alternativa.trim() : placeholder.padrao;
+  });
+
+  return { mensagem, ausentes };
+}
+
+async function carregarDadosDestinatario(clienteId: number, texto: string, agora: Date): Promise<DadosDestinatario> {
+  const cliente = await db.getClienteById(clienteId);
+  if (!cliente) {
+    throw new Error("Cliente não encontrado");
+  }
+
+  const nomes = extrairPlaceholders(texto).map(p => p.nome);
+  const ultimaCompra = nomes.includes("ultimoProduto") || nomes.includes("diasDesdeUltimaCompra")
+    ? await db.getUltimaCompraCliente(clienteId)
+    : undefined;
+
+  // Com mais de um produto ativo do tipo, vale o menor preço para o cliente
+  const precos = new Map<string, number>();
+  if (nomes.includes("preco")) {
+    for (const produto of await getProdutosComPrecoCliente(clienteId)) {
+      const atual = precos.get(produto.tipo);
+      if (atual === undefined || produto.precoEfetivo < atual) {
+        precos.set(produto.tipo, produto.precoEfetivo);
+      }
+    }
+  }
+
+  return { cliente, ultimaCompra, precos, agora };
+}
+
+/**
+ * Preenche o modelo com os dados do cliente. Dados ausentes usam o texto
+ * alternativo do placeholder ou o padrão dele e são listados em `ausentes`.
+ */
+export async function renderizarMensagem(texto: string, clienteId: number, agora = new Date()) {
+  validarModelo(texto);
+  const dados = await carregarDadosDestinatario(clienteId, texto, agora);
+  return preencher(texto, dados);
+}
+
+/**
+ * Prévia do modelo: com cliente, usa os dados reais dele; sem cliente, os
+ * valores de exemplo de cada placeholder
+ */
+export async function previsualizarMensagem(texto: string, clienteId?: number) {
+  const placeholders = validarModelo(texto);
+
+  if (clienteId !== undefined) {
+    return { ...(await renderizarMensagem(texto, clienteId)), placeholders };
+  }
+
+  const mensagem = texto.replace(REGEX_PLACEHOLDER, (_original, nome: string) => PLACEHOLDERS[nome].exemplo);
+  return { mensagem, ausentes: [] as string[], placeholders };
+}
+
+/**
+ * Texto da mensagem a partir do conteúdo informado ou de um modelo salvo
+ */
+export async function resolverConteudoModelo(params: { conteudo?: string; modeloId?: number }) {
+  if (params.conteudo !== undefined) return params.conteudo;
+
+  if (params.modeloId === undefined) {
+    throw new Error("Informe o conteúdo ou o modelo da mensagem");
+  }
+
+  const modelo = await db.getModeloMensagemById(params.modeloId);
+  if (!modelo || !modelo.ativo) {
+    throw new Error("Modelo de mensagem não encontrado");
+  }
+  return modelo.conteudo;
+}
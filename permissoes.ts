@@ -0,0 +1,118 @@
+import { TRPCError } from "@trpc/server";
+import type { User } from "../drizzle/schema";
+import { protectedProcedure } from "./_core/trpc";
+import * as db from "./db";
+
+export type Perfil = "admin" | "gerente" | "vendedor";
+
+const TODOS: readonly Perfil[] = ["admin", "gerente", "vendedor"];
+const GESTAO: readonly Perfil[] = ["admin", "gerente"];
+const ADMIN: readonly Perfil[] = ["admin"];
+
+/**
+ * Matriz de permissões: cada procedimento do router exige uma destas
+ * permissões e só os perfis listados passam
+ */
+export const PERMISSOES = {
+  // Consulta de cadastros usados no balcão e na rua
+  "cadastros.ver": TODOS,
+  "clientes.editar": TODOS,
+  "clientes.excluir": GESTAO,
+  "vendedores.gerenciar": GESTAO,
+  // Produtos, tabelas de preço e estoque
+  "produtos.gerenciar": GESTAO,
+  // Fornecedores, compras e contas a pagar
+  "compras.gerenciar": GESTAO,
+  // Vendedores só veem e registram as próprias vendas
+  "vendas.registrar": TODOS,
+  "vendas.cancelar": GESTAO,
+  // Entregadores só veem e entregam os pedidos atribuídos a eles
+  "pedidos.entregar": TODOS,
+  "pedidos.registrar": TODOS,
+  "pedidos.gerenciar": GESTAO,
+  // Vendedores só veem e lançam as próprias despesas
+  "despesas.registrar": TODOS,
+  "despesas.gerenciar": GESTAO,
+  // Contas a receber, caixa, comissões e relatórios
+  "financeiro.gerenciar": GESTAO,
+  // Mensagens, conversas, modelos, campanhas e consentimento
+  "mensagens.gerenciar": GESTAO,
+  // WhatsApp, assistente, tarefas e perfis de usuários
+  "sistema.configurar": ADMIN,
+} satisfies Record<string, readonly Perfil[]>;
+
+export type Permissao = keyof typeof PERMISSOES;
+
+export type AcessoUsuario = {
+  perfil: Perfil;
+  vendedorId: number | null;
+};
+
+/**
+ * Perfil efetivo do usuário. Administradores da plataforma (users.role) são
+ * sempre admin; sem perfil atribuído, o usuário tem o acesso mais restrito.
+ */
+export async function resolverAcessoUsuario(user: User): Promise<AcessoUsuario> {
+  const registro = await db.getPerfilUsuario(user.id);
+
+  if (user.role === "admin") {
+    return { perfil: "admin", vendedorId: registro?.vendedorId ?? null };
+  }
+
+  return {
+    perfil: registro?.perfil ?? "vendedor",
+    vendedorId: registro?.vendedorId ?? null,
+  };
+}
+
+export function temPermissao(perfil: Perfil, permissao: Permissao) {
+  return PERMISSOES[permissao].includes(perfil);
+}
+
+export function getPermissoesPerfil(perfil: Perfil) {
+  return (Object.keys(PERMISSOES) as Permissao[]).filter(permissao => temPermissao(perfil, permissao));
+}
+
+/**
+ * Procedimento autenticado que exige a permissão e expõe o acesso do
+ * usuário em ctx.acesso
+ */
+export function procedimentoComPermissao(permissao: Permissao) {
+  return protectedProcedure.use(async ({ ctx, next }) => {
+    const acesso = await resolverAcessoUsuario(ctx.user);
+
+    if (!temPermissao(acesso.perfil, permissao)) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Seu perfil não tem permissão para esta operação" });
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        acesso,
+      },
+    });
+  });
+}
+
+/**
+ * Vendedor ao qual o usuário está restrito, ou undefined para gerentes e
+ * administradores, que veem todos
+ */
+export function vendedorRestrito(acesso: AcessoUsuario) {
+  if (acesso.perfil !== "vendedor") return undefined;
+
+  if (!acesso.vendedorId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Usuário não está vinculado a um vendedor" });
+  }
+  return acesso.vendedorId;
+}
+
+/**
+ * Garante que o vendedor informado é o do próprio usuário quando ele é restrito
+ */
+export function exigirVendedorProprio(acesso: AcessoUsuario, vendedorId: number | null | undefined) {
+  const restrito = vendedorRestrito(acesso);
+  if (restrito !== undefined && vendedorId !== restrito) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Vendedores só têm acesso aos próprios registros" });
+  }
+}
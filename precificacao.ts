@@ -0,0 +1,275 @@
+import * as db from "./db";
+
+/**
+ * Desconto máximo (em %) que cada perfil de usuário pode conceder numa venda
+ */
+export const DESCONTO_MAXIMO_POR_PERFIL: Record<string, number> = {
+  admin: 100,
+  gerente: 20,
+  vendedor: 10,
+};
+
+// Ordem de especificidade usada no desempate entre tabelas de mesma prioridade
+const ESPECIFICIDADE_ESCOPO: Record<string, number> = {
+  cliente: 3,
+  categoria: 2,
+  regiao: 1,
+};
+
+export type PrecoEfetivo = {
+  preco: number;
+  tabelaPrecoId: number | null;
+  tabelaPrecoNome: string | null;
+};
+
+export type DescontoSolicitado = {
+  tipo: "percentual" | "valor";
+  valor: number;
+  motivo: string;
+};
+
+export type ItemSolicitado = {
+  produtoId: number;
+  quantidade: number;
+  desconto?: DescontoSolicitado;
+  // Valores exibidos no cliente, usados apenas para conferência
+  precoUnitario?: number;
+  subtotal?: number;
+};
+
+export type ItemCalculado = {
+  produtoId: number;
+  produtoNome: string;
+  produtoTipo: string;
+  quantidade: number;
+  precoUnitario: number;
+  tabelaPrecoId: number | null;
+  valorBruto: number;
+  desconto: number;
+  subtotal: number;
+  custo: number;
+};
+
+export type DescontoAplicado = {
+  produtoId: number | null;
+  tipo: "percentual" | "valor";
+  percentual: number;
+  valor: number;
+  motivo: string;
+};
+
+export type CalculoVenda = {
+  itens: ItemCalculado[];
+  subtotalBruto: number;
+  descontoItens: number;
+  descontoPedido: number;
+  total: number;
+  lucro: number;
+  descontos: DescontoAplicado[];
+};
+
+// Diferença máxima aceita entre o valor informado pelo cliente e o calculado
+const TOLERANCIA = 0.01;
+
+function arredondar(valor: number) {
+  return Math.round(valor * 100) / 100;
+}
+
+/**
+ * Custo unitário usado no lucro. produtos.precoCompra é inteiro: enquanto
+ * ele for o arredondamento da última compra, vale o custo exato dela; se o
+ * custo foi alterado à mão depois, vale o cadastro.
+ */
+function custoUnitario(produto: { id: number; precoCompra: number }, custosCompra: Map<number, number>) {
+  const custoCompra = custosCompra.get(produto.id);
+  return custoCompra !== undefined && Math.round(custoCompra) === produto.precoCompra
+    ? custoCompra
+    : produto.precoCompra;
+}
+
+function calcularDesconto(base: number, desconto: DescontoSolicitado) {
+  const valor = desconto.tipo === "percentual"
+    ? arredondar(base * desconto.valor / 100)
+    : arredondar(desconto.valor);
+
+  if (valor > base) {
+    throw new Error("Desconto maior que o valor a ser descontado");
+  }
+
+  const percentual = base > 0 ? arredondar(valor / base * 100) : 0;
+  return { valor, percentual };
+}
+
+function validarLimite(percentual: number, limite: number, descricao: string) {
+  if (percentual > limite + TOLERANCIA) {
+    throw new Error(
+      `Desconto de ${percentual}% em ${descricao} excede o máximo de ${limite}% permitido para o seu perfil`
+    );
+  }
+}
+
+function conferir(informado: number | undefined, calculado: number, descricao: string) {
+  if (informado !== undefined && Math.abs(informado - calculado) > TOLERANCIA) {
+    throw new Error(
+      `Valor divergente em ${descricao}: informado ${informado}, calculado ${calculado}`
+    );
+  }
+}
+
+/**
+ * Resolve o preço de tabela de cada produto para um cliente. Entre as tabelas
+ * vigentes que se aplicam a ele, vence a de maior prioridade; no empate, a
+ * mais específica (cliente > categoria > região) e depois a mais recente.
+ * Produtos sem preço em tabela ficam fora do mapa e usam o precoVenda.
+ */
+export async function resolverPrecosCliente(clienteId: number, data = new Date()) {
+  const precos = new Map<number, PrecoEfetivo & { prioridade: number; especificidade: number }>();
+
+  const cliente = await db.getClienteById(clienteId);
+  if (!cliente) {
+    throw new Error("Cliente não encontrado");
+  }
+
+  const aplicaveis = await db.getPrecosTabelaAplicaveis(cliente, data);
+  for (const item of aplicaveis) {
+    const especificidade = ESPECIFICIDADE_ESCOPO[item.escopo];
+    const atual = precos.get(item.produtoId);
+    const vence = !atual
+      || item.prioridade > atual.prioridade
+      || (item.prioridade === atual.prioridade && especificidade > atual.especificidade)
+      || (item.prioridade === atual.prioridade && especificidade === atual.especificidade
+        && item.tabelaPrecoId > (atual.tabelaPrecoId ?? 0));
+
+    if (vence) {
+      precos.set(item.produtoId, {
+        preco: item.preco,
+        tabelaPrecoId: item.tabelaPrecoId,
+        tabelaPrecoNome: item.tabelaPrecoNome,
+        prioridade: item.prioridade,
+        especificidade,
+      });
+    }
+  }
+
+  return precos as Map<number, PrecoEfetivo>;
+}
+
+/**
+ * Lista os produtos ativos com o preço efetivo para o cliente
+ */
+export async function getProdutosComPrecoCliente(clienteId: number) {
+  const produtos = await db.getProdutos();
+  const precos = await resolverPrecosCliente(clienteId);
+
+  return produtos.map(produto => {
+    const precoTabela = precos.get(produto.id);
+    return {
+      ...produto,
+      precoEfetivo: precoTabela?.preco ?? produto.precoVenda,
+      tabelaPrecoId: precoTabela?.tabelaPrecoId ?? null,
+      tabelaPrecoNome: precoTabela?.tabelaPrecoNome ?? null,
+    };
+  });
+}
+
+/**
+ * Calcula preços, descontos, total e lucro de uma venda a partir do cadastro
+ * de produtos e das tabelas de preço do cliente. Valores enviados pelo
+ * cliente servem apenas para conferência: qualquer divergência rejeita a venda.
+ */
+export async function calcularVenda(params: {
+  itens: ItemSolicitado[];
+  desconto?: DescontoSolicitado;
+  totalInformado?: number;
+  clienteId?: number;
+  perfil: string;
+}): Promise<CalculoVenda> {
+  const limite = DESCONTO_MAXIMO_POR_PERFIL[params.perfil] ?? 0;
+  const precosCliente = params.clienteId
+    ? await resolverPrecosCliente(params.clienteId)
+    : new Map<number, PrecoEfetivo>();
+  const custosCompra = await db.getCustosUltimaCompra(params.itens.map(item => item.produtoId));
+  const itens: ItemCalculado[] = [];
+  const descontos: DescontoAplicado[] = [];
+
+  for (const solicitado of params.itens) {
+    const produto = await db.getProdutoById(solicitado.produtoId);
+    if (!produto || !produto.ativo) {
+      throw new Error(`Produto #${solicitado.produtoId} não encontrado ou inativo`);
+    }
+
+    const precoTabela = precosCliente.get(produto.id);
+    const precoUnitario = precoTabela?.preco ?? produto.precoVenda;
+    const valorBruto = arredondar(precoUnitario * solicitado.quantidade);
+
+    let desconto = 0;
+    if (solicitado.desconto) {
+      const aplicado = calcularDesconto(valorBruto, solicitado.desconto);
+      validarLimite(aplicado.percentual, limite, produto.nome);
+      desconto = aplicado.valor;
+      descontos.push({
+        produtoId: produto.id,
+        tipo: solicitado.desconto.tipo,
+        percentual: aplicado.percentual,
+        valor: aplicado.valor,
+        motivo: solicitado.desconto.motivo,
+      });
+    }
+
+    const subtotal = arredondar(valorBruto - desconto);
+    conferir(solicitado.precoUnitario, precoUnitario, `preço unitário de ${produto.nome}`);
+    conferir(solicitado.subtotal, subtotal, `subtotal de ${produto.nome}`);
+
+    itens.push({
+      produtoId: produto.id,
+      produtoNome: produto.nome,
+      produtoTipo: produto.tipo,
+      quantidade: solicitado.quantidade,
+      precoUnitario,
+      tabelaPrecoId: precoTabela?.tabelaPrecoId ?? null,
+      valorBruto,
+      desconto,
+      subtotal,
+      custo: arredondar(custoUnitario(produto, custosCompra) * solicitado.quantidade),
+    });
+  }
+
+  const subtotalBruto = arredondar(itens.reduce((sum, item) => sum + item.valorBruto, 0));
+  const descontoItens = arredondar(itens.reduce((sum, item) => sum + item.desconto, 0));
+  const subtotalLiquido = arredondar(subtotalBruto - descontoItens);
+
+  let descontoPedido = 0;
+  if (params.desconto) {
+    const aplicado = calcularDesconto(subtotalLiquido, params.desconto);
+    validarLimite(aplicado.percentual, limite, "pedido");
+    descontoPedido = aplicado.valor;
+    descontos.push({
+      produtoId: null,
+      tipo: params.desconto.tipo,
+      percentual: aplicado.percentual,
+      valor: aplicado.valor,
+      motivo: params.desconto.motivo,
+    });
+  }
+
+  // O desconto somado (itens + pedido) também respeita o limite do perfil
+  if (subtotalBruto > 0) {
+    const percentualTotal = arredondar((descontoItens + descontoPedido) / subtotalBruto * 100);
+    validarLimite(percentualTotal, limite, "venda");
+  }
+
+  const total = arredondar(subtotalLiquido - descontoPedido);
+  const custoTotal = itens.reduce((sum, item) => sum + item.custo, 0);
+  const lucro = arredondar(total - custoTotal);
+  conferir(params.totalInformado, total, "total da venda");
+
+  return {
+    itens,
+    subtotalBruto,
+    descontoItens,
+    descontoPedido,
+    total,
+    lucro,
+    descontos,
+  };
+}
@@ -0,0 +1,26 @@
+import * as db from "./db";
+import { onStatusMensagem, type StatusMensagemWhatsApp } from "./whatsappEventos";
+
+// A confirmação pode chegar antes de a mensagem enviada ser gravada
+const ESPERA_REGISTRO_MS = 5000;
+
+async function aplicarStatus(status: StatusMensagemWhatsApp) {
+  const aplicado = await db.atualizarStatusEnvioMensagem(status.provedorMensagemId, status.status, status.em);
+  if (aplicado) return;
+
+  await new Promise(resolve => setTimeout(resolve, ESPERA_REGISTRO_MS));
+  // Sem registro depois da espera: mensagem enviada fora do sistema, ignorada
+  await db.atualizarStatusEnvioMensagem(status.provedorMensagemId, status.status, status.em);
+}
+
+/**
+ * Passa a marcar as mensagens enviadas como entregues e lidas a partir das
+ * confirmações do WhatsApp
+ */
+export function iniciarRecibos() {
+  onStatusMensagem(status => {
+    aplicarStatus(status).catch(error => {
+      console.error(`[Recibos] Erro ao atualizar mensagem ${status.provedorMensagemId}:`, error);
+    });
+  });
+}
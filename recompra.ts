@@ -0,0 +1,197 @@
+import { z } from "zod";
+import * as db from "./db";
+import { enfileirarMensagem } from "./filaMensagens";
+import { renderizarMensagem, validarModelo } from "./modelosMensagem";
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+// Histórico considerado para estimar o ciclo de compra
+const JANELA_HISTORICO_DIAS = 365;
+// Intervalos mais recentes usados na estimativa
+const MAXIMO_INTERVALOS = 6;
+// Compras com menos de um dia de diferença contam como uma só
+const INTERVALO_MINIMO_DIAS = 1;
+
+// Tarefa recorrente diária; a configuração fica no payload dela
+export const CHAVE_TAREFA_RECOMPRA = "recompra.lembretes";
+
+export const configLembreteRecompraSchema = z.object({
+  produtoTipo: z.enum(["gas_p13", "agua_mineral", "agua_dessalinizada"]).default("gas_p13"),
+  diasAntecedencia: z.number().int().min(0).max(30).default(2),
+  minimoCompras: z.number().int().min(2).default(3),
+  mensagem: z.string().min(1).optional(),
+});
+
+export type ConfigLembreteRecompra = z.infer<typeof configLembreteRecompraSchema>;
+
+/**
+ * Configuração gravada com os valores padrão para o que faltar
+ */
+export function getConfigLembreteRecompra(payload: unknown): ConfigLembreteRecompra {
+  const resultado = configLembreteRecompraSchema.safeParse(payload ?? {});
+  return resultado.success ? resultado.data : configLembreteRecompraSchema.parse({});
+}
+
+export async function carregarConfigLembreteRecompra() {
+  const tarefa = await db.getTarefaAgendadaByChave(CHAVE_TAREFA_RECOMPRA);
+  return getConfigLembreteRecompra(tarefa?.payload);
+}
+
+export async function salvarConfigLembreteRecompra(config: ConfigLembreteRecompra) {
+  const tarefa = await db.getTarefaAgendadaByChave(CHAVE_TAREFA_RECOMPRA);
+  if (!tarefa) {
+    throw new Error("Tarefa de lembretes de recompra não encontrada");
+  }
+  if (config.mensagem) {
+    validarModelo(config.mensagem);
+  }
+  await db.atualizarPayloadTarefaAgendada(CHAVE_TAREFA_RECOMPRA, config);
+  return config;
+}
+
+const MENSAGEM_PADRAO = "Olá, {nome}! Pelo seu histórico, seu gás deve estar acabando nos próximos dias. "
+  + "Quer que a gente já agende a entrega? É só responder esta mensagem.";
+
+export type PrevisaoRecompra = {
+  clienteId: number;
+  clienteNome: string;
+  clienteTelefone: string | null;
+  quantidadeCompras: number;
+  ultimaCompraEm: Date;
+  cicloDias: number;
+  previsaoEm: Date;
+  lembrarEm: Date;
+};
+
+function mediana(valores: number[]) {
+  const ordenados = [...valores].sort((a, b) => a - b);
+  const meio = Math.floor(ordenados.length / 2);
+  return ordenados.length % 2 === 0
+    ? (ordenados[meio - 1] + ordenados[meio]) / 2
+    : ordenados[meio];
+}
+
+/**
+ * Estima o ciclo de compra de cada cliente pela mediana dos intervalos entre
+ * as compras mais recentes e prevê a próxima a partir da última compra.
+ * Clientes com menos compras que o mínimo ficam de fora.
+ */
+export async function preverRecompras(config: ConfigLembreteRecompra, agora = new Date()): Promise<PrevisaoRecompra[]> {
+  const historico = await db.getHistoricoCompras(
+    config.produtoTipo,
+    new Date(agora.getTime() - JANELA_HISTORICO_DIAS * DIA_MS)
+  );
+
+  const porCliente = new Map<number, typeof historico>();
+  for (const compra of historico) {
+    const lista = porCliente.get(compra.clienteId) ?? [];
+    const anterior = lista[lista.length - 1];
+    // Vendas no mesmo dia (ex.: dois botijões em vendas separadas) são uma compra só
+    if (!anterior || compra.criadoEm.getTime() - anterior.criadoEm.getTime() >= INTERVALO_MINIMO_DIAS * DIA_MS) {
+      lista.push(compra);
+    }
+    porCliente.set(compra.clienteId, lista);
+  }
+
+  const previsoes: PrevisaoRecompra[] = [];
+  for (const compras of Array.from(porCliente.values())) {
+    if (compras.length < Math.max(config.minimoCompras, 2)) continue;
+
+    const intervalos: number[] = [];
+    for (let i = 1; i < compras.length; i++) {
+      intervalos.push((compras[i].criadoEm.getTime() - compras[i - 1].criadoEm.getTime()) / DIA_MS);
+    }
+
+    const cicloDias = Math.round(mediana(intervalos.slice(-MAXIMO_INTERVALOS)));
+    const ultima = compras[compras.length - 1];
+    const previsaoEm = new Date(ultima.criadoEm.getTime() + cicloDias * DIA_MS);
+
+    previsoes.push({
+      clienteId: ultima.clienteId,
+      clienteNome: ultima.clienteNome,
+      clienteTelefone: ultima.clienteTelefone,
+      quantidadeCompras: compras.length,
+      ultimaCompraEm: ultima.criadoEm,
+      cicloDias,
+      previsaoEm,
+      lembrarEm: new Date(previsaoEm.getTime() - config.diasAntecedencia * DIA_MS),
+    });
+  }
+
+  return previsoes.sort((a, b) => a.previsaoEm.getTime() - b.previsaoEm.getTime());
+}
+
+/**
+ * Previsões com a situação do lembrete do ciclo atual
+ */
+export async function getPrevisoesRecompra(config: ConfigLembreteRecompra) {
+  const previsoes = await preverRecompras(config);
+  const lembretes = await db.getLembretesRecompra(previsoes.map(p => p.clienteId));
+
+  return previsoes.map(previsao => {
+    const lembrete = lembretes.find(l =>
+      l.clienteId === previsao.clienteId && l.ultimaCompraEm.getTime() === previsao.ultimaCompraEm.getTime()
+    );
+    return {
+      ...previsao,
+      lembreteEnviadoEm: lembrete?.criadoEm ?? null,
+    };
+  });
+}
+
+/**
+ * Envia o lembrete de recompra a quem chegou na data de lembrar. Cada ciclo
+ * (identificado pela última compra) recebe no máximo um lembrete, então quem
+ * já comprou de novo só volta a ser lembrado no ciclo seguinte.
+ */
+export async function enviarLembretesRecompra(config: ConfigLembreteRecompra, usuarioId?: string) {
+  const agora = new Date();
+  const previsoes = await preverRecompras(config, agora);
+  const consentidos = await db.getClientesComConsentimento(previsoes.map(p => p.clienteId));
+
+  let enviados = 0;
+  const erros: { clienteId: number; erro: string }[] = [];
+
+  for (const previsao of previsoes) {
+    if (previsao.lembrarEm > agora) continue;
+    if (!consentidos.includes(previsao.clienteId)) continue;
+    // Muito depois da data prevista o cliente provavelmente comprou em outro lugar
+    if (agora.getTime() - previsao.previsaoEm.getTime() > previsao.cicloDias * DIA_MS) continue;
+
+    if (!previsao.clienteTelefone) {
+      erros.push({ clienteId: previsao.clienteId, erro: "Cliente não possui telefone cadastrado" });
+      continue;
+    }
+
+    const registrado = await db.registrarLembreteRecompra({
+      clienteId: previsao.clienteId,
+      ultimaCompraEm: previsao.ultimaCompraEm,
+      previsaoEm: previsao.previsaoEm,
+      cicloDias: previsao.cicloDias,
+    });
+    if (!registrado) continue;
+
+    let mensagemId: number | undefined;
+    try {
+      const { mensagem: conteudo } = await renderizarMensagem(config.mensagem ?? MENSAGEM_PADRAO, previsao.clienteId, agora);
+      mensagemId = await enfileirarMensagem({
+        clienteId: previsao.clienteId,
+        tipo: "automatica",
+        conteudo,
+        usuarioId,
+      }, { marketing: true });
+      await db.vincularMensagemLembreteRecompra(previsao.clienteId, previsao.ultimaCompraEm, mensagemId);
+      enviados++;
+    } catch (error: any) {
+      erros.push({ clienteId: previsao.clienteId, erro: error?.message || String(error) });
+      // Se a mensagem nem entrou na fila, o ciclo fica livre para a próxima execução
+      if (mensagemId === undefined) {
+        await db.removerLembreteRecompra(previsao.clienteId, previsao.ultimaCompraEm).catch(erroRemocao => {
+          console.error(`[Recompra] Erro ao liberar lembrete do cliente #${previsao.clienteId}:`, erroRemocao);
+        });
+      }
+    }
+  }
+
+  return { enviados, erros };
+}
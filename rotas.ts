@@ -0,0 +1,245 @@
+import * as db from "./db";
+
+export type CapacidadeVeiculo = {
+  p13: number;
+  galoes: number;
+};
+
+export type ParadaRota = {
+  pedidoId: number;
+  clienteNome: string | null;
+  clienteTelefone: string | null;
+  endereco: string | null;
+  bairro: string;
+  regiao: string;
+  horarioDesejado: Date | null;
+  p13: number;
+  galoes: number;
+  itens: { produtoNome: string | null; quantidade: number }[];
+};
+
+export type ViagemRota = {
+  numero: number;
+  p13: number;
+  galoes: number;
+  excedeCapacidade: boolean;
+  paradas: ParadaRota[];
+};
+
+export type RotaEntregador = {
+  vendedorId: number;
+  vendedorNome: string;
+  vendedorTelefone: string | null;
+  totalParadas: number;
+  viagens: ViagemRota[];
+  texto: string;
+};
+
+type PedidoParaRota = Awaited<ReturnType<typeof db.getPedidos>>[number] & {
+  itens: Awaited<ReturnType<typeof db.getItensPedidos>>;
+};
+
+const SEM_REGIAO = "Sem região";
+const SEM_BAIRRO = "Sem bairro";
+
+function compararHorario(a: ParadaRota, b: ParadaRota) {
+  const horaA = a.horarioDesejado?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  const horaB = b.horarioDesejado?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  return horaA - horaB || a.pedidoId - b.pedidoId;
+}
+
+function montarParada(pedido: PedidoParaRota): ParadaRota {
+  let p13 = 0;
+  let galoes = 0;
+  for (const item of pedido.itens) {
+    if (item.produtoTipo === "gas_p13") {
+      p13 += item.quantidade;
+    } else {
+      galoes += item.quantidade;
+    }
+  }
+
+  return {
+    pedidoId: pedido.id,
+    clienteNome: pedido.clienteNome,
+    clienteTelefone: pedido.clienteTelefone,
+    endereco: pedido.endereco,
+    bairro: pedido.bairro || SEM_BAIRRO,
+    regiao: pedido.regiao || SEM_REGIAO,
+    horarioDesejado: pedido.horarioDesejado,
+    p13,
+    galoes,
+    itens: pedido.itens.map(item => ({ produtoNome: item.produtoNome, quantidade: item.quantidade })),
+  };
+}
+
+/**
+ * Ordena as paradas de uma região agrupando por bairro; bairros e paradas
+ * seguem o horário desejado mais cedo
+ */
+function ordenarPorBairro(paradas: ParadaRota[]) {
+  const porBairro = new Map<string, ParadaRota[]>();
+  for (const parada of [...paradas].sort(compararHorario)) {
+    const lista = porBairro.get(parada.bairro) ?? [];
+    lista.push(parada);
+    porBairro.set(parada.bairro, lista);
+  }
+
+  return Array.from(porBairro.values())
+    .sort((a, b) => compararHorario(a[0], b[0]) || a[0].bairro.localeCompare(b[0].bairro))
+    .flat();
+}
+
+/**
+ * Divide as paradas em viagens respeitando a capacidade do veículo. Um pedido
+ * maior que a capacidade vai sozinho numa viagem marcada como excedente.
+ */
+function dividirEmViagens(paradas: ParadaRota[], capacidade: CapacidadeVeiculo) {
+  const viagens: ViagemRota[] = [];
+  let atual: ViagemRota | null = null;
+
+  for (const parada of paradas) {
+    const cabe = atual
+      && atual.p13 + parada.p13 <= capacidade.p13
+      && atual.galoes + parada.galoes <= capacidade.galoes;
+
+    if (!atual || !cabe) {
+      atual = { numero: viagens.length + 1, p13: 0, galoes: 0, excedeCapacidade: false, paradas: [] };
+      viagens.push(atual);
+    }
+
+    atual.paradas.push(parada);
+    atual.p13 += parada.p13;
+    atual.galoes += parada.galoes;
+    atual.excedeCapacidade = atual.p13 > capacidade.p13 || atual.galoes > capacidade.galoes;
+  }
+
+  return viagens;
+}
+
+function formatarHorario(data: Date) {
+  return data.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit", timeZone: "America/Fortaleza" });
+}
+
+/**
+ * Texto da rota para impressão ou envio ao entregador pelo WhatsApp
+ */
+export function formatarRota(rota: Omit<RotaEntregador, "texto">) {
+  const linhas = [`*Rota de ${rota.vendedorNome}* (${rota.totalParadas} entregas)`];
+
+  for (const viagem of rota.viagens) {
+    linhas.push("");
+    linhas.push(`*Viagem ${viagem.numero}* - ${viagem.p13} P13, ${viagem.galoes} galões${viagem.excedeCapacidade ? " (acima da capacidade)" : ""}`);
+    viagem.paradas.forEach((parada, index) => {
+      const horario = parada.horarioDesejado ? ` às ${formatarHorario(parada.horarioDesejado)}` : "";
+      const itens = parada.itens.map(item => `${item.quantidade}x ${item.produtoNome ?? "Produto"}`).join(", ");
+      linhas.push(`${index + 1}. Pedido #${parada.pedidoId} - ${parada.clienteNome ?? "Cliente"}${horario}`);
+      linhas.push(`   ${parada.endereco ?? "Endereço não informado"} - ${parada.bairro}`);
+      if (parada.clienteTelefone) {
+        linhas.push(`   Tel: ${parada.clienteTelefone}`);
+      }
+      linhas.push(`   ${itens}`);
+    });
+  }
+
+  return linhas.join("\n");
+}
+
+/**
+ * Distribui as entregas entre os entregadores mantendo cada região com um só
+ * entregador. Pedidos já atribuídos a um entregador do turno ficam com ele;
+ * as demais regiões vão, da maior para a menor, para o entregador com menos
+ * volume até o momento.
+ */
+export function montarRotas(
+  pedidos: PedidoParaRota[],
+  entregadores: { id: number; nome: string; telefone: string | null }[],
+  capacidade: CapacidadeVeiculo
+): RotaEntregador[] {
+  const paradasPorEntregador = new Map<number, ParadaRota[]>(
+    entregadores.map(entregador => [entregador.id, []])
+  );
+  const volume = (paradas: ParadaRota[]) => paradas.reduce((sum, p) => sum + p.p13 + p.galoes, 0);
+
+  const porRegiao = new Map<string, ParadaRota[]>();
+  for (const pedido of pedidos) {
+    const parada = montarParada(pedido);
+    const atribuidas = pedido.vendedorId ? paradasPorEntregador.get(pedido.vendedorId) : undefined;
+    if (atribuidas) {
+      atribuidas.push(parada);
+      continue;
+    }
+    const lista = porRegiao.get(parada.regiao) ?? [];
+    lista.push(parada);
+    porRegiao.set(parada.regiao, lista);
+  }
+
+  const regioes = Array.from(porRegiao.values()).sort((a, b) => volume(b) - volume(a));
+  for (const paradas of regioes) {
+    let escolhido: ParadaRota[] | undefined;
+    for (const lista of Array.from(paradasPorEntregador.values())) {
+      if (!escolhido || volume(lista) < volume(escolhido)) {
+        escolhido = lista;
+      }
+    }
+    escolhido?.push(...paradas);
+  }
+
+  return entregadores.map(entregador => {
+    const paradas = paradasPorEntregador.get(entregador.id) ?? [];
+
+    // Regiões em ordem de horário; dentro de cada uma, agrupadas por bairro
+    const regioesEntregador = new Map<string, ParadaRota[]>();
+    for (const parada of [...paradas].sort(compararHorario)) {
+      const lista = regioesEntregador.get(parada.regiao) ?? [];
+      lista.push(parada);
+      regioesEntregador.set(parada.regiao, lista);
+    }
+    const ordenadas = Array.from(regioesEntregador.values()).flatMap(ordenarPorBairro);
+
+    const rota = {
+      vendedorId: entregador.id,
+      vendedorNome: entregador.nome,
+      vendedorTelefone: entregador.telefone,
+      totalParadas: ordenadas.length,
+      viagens: dividirEmViagens(ordenadas, capacidade),
+    };
+
+    return { ...rota, texto: formatarRota(rota) };
+  });
+}
+
+/**
+ * Planeja as rotas do turno a partir dos pedidos recebidos ainda não entregues
+ */
+export async function planejarRotas(params: {
+  vendedorIds: number[];
+  capacidade: CapacidadeVeiculo;
+  inicio?: Date;
+  fim?: Date;
+}) {
+  const entregadores = [];
+  for (const vendedorId of params.vendedorIds) {
+    const vendedor = await db.getVendedorById(vendedorId);
+    if (!vendedor || !vendedor.ativo) {
+      throw new Error(`Vendedor #${vendedorId} não encontrado ou inativo`);
+    }
+    entregadores.push({ id: vendedor.id, nome: vendedor.nome, telefone: vendedor.telefone });
+  }
+
+  // Pedidos sem horário desejado entram em qualquer turno
+  const abertos = (await db.getPedidos({ status: ["recebido"] })).filter(pedido => {
+    if (!pedido.horarioDesejado) return true;
+    if (params.inicio && pedido.horarioDesejado < params.inicio) return false;
+    if (params.fim && pedido.horarioDesejado > params.fim) return false;
+    return true;
+  });
+
+  const itens = await db.getItensPedidos(abertos.map(pedido => pedido.id));
+  const pedidos = abertos.map(pedido => ({
+    ...pedido,
+    itens: itens.filter(item => item.pedidoId === pedido.id),
+  }));
+
+  return montarRotas(pedidos, entregadores, params.capacidade);
+}
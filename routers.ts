@@ -4,7 +4,126 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
-import { enviarMensagemBaileys, getWhatsAppStatus, disconnectWhatsApp } from "./whatsappBaileys";
+import { calcularVenda, getProdutosComPrecoCliente } from "./precificacao";
+import { prepararVenda } from "./vendas";
+import { normalizarDocumento, prepararCompra } from "./compras";
+import { planejarRotas } from "./rotas";
+import { enviarLembretesVencidos, getAgingContasReceber } from "./cobranca";
+import { fecharCaixa, getRelatorioCaixa } from "./caixa";
+import { calcularComissao, fecharExtratoComissao } from "./comissoes";
+import { dispararCampanha, filtrosCampanhaSchema, parseFiltrosCampanha, resolverAudiencia } from "./campanhas";
+import {
+  carregarConfigLembreteRecompra,
+  configLembreteRecompraSchema,
+  enviarLembretesRecompra,
+  getPrevisoesRecompra,
+  salvarConfigLembreteRecompra,
+} from "./recompra";
+import { getConversa } from "./conversas";
+import { executarAssistente } from "./assistente";
+import { processarAudio } from "./audios";
+import { agendarTarefa, garantirTarefaRecorrente, getTiposTarefa } from "./agendador";
+import { desconectarWhatsApp, enviarMensagem, getStatusWhatsApp, iniciarWhatsApp } from "./whatsappProvedor";
+import { enviarMensagemComFila, reenviarMensagens } from "./filaMensagens";
+import { exportarHistoricoConsentimento } from "./consentimento";
+import {
+  getPlaceholdersDisponiveis,
+  previsualizarMensagem,
+  renderizarMensagem,
+  resolverConteudoModelo,
+  validarModelo,
+} from "./modelosMensagem";
+import { auditarAlteracao, auditarCriacao, ENTIDADES_AUDITADAS, registrarAuditoria } from "./auditoria";
+import {
+  exigirVendedorProprio,
+  getPermissoesPerfil,
+  procedimentoComPermissao,
+  resolverAcessoUsuario,
+  vendedorRestrito,
+} from "./permissoes";
+import { getMensagensFake, limparMensagensFake, simularMensagemRecebidaFake, simularStatusFake } from "./whatsappFake";
+
+const descontoInput = z.object({
+  tipo: z.enum(["percentual", "valor"]),
+  valor: z.number().min(0),
+  motivo: z.string().min(1),
+});
+
+const vasilhameInput = z.object({
+  devolvidos: z.number().int().min(0),
+  vendidos: z.number().int().min(0),
+  emprestados: z.number().int().min(0),
+});
+
+const itemVendaInput = z.object({
+  produtoId: z.number(),
+  quantidade: z.number().int().min(1),
+  desconto: descontoInput.optional(),
+  vasilhame: vasilhameInput.optional(),
+  precoUnitario: z.number().min(0).optional(),
+  subtotal: z.number().min(0).optional(),
+});
+
+const formaRecebimentoInput = z.enum(["dinheiro", "cartao_credito", "cartao_debito", "pix", "outros"]);
+
+const formaPagamentoInput = z.enum(["dinheiro", "cartao_credito", "cartao_debito", "pix", "outros", "fiado"]);
+
+const categoriaClienteInput = z.enum(["residencial", "comercial", "revendedor", "condominio"]);
+
+const tabelaPrecoInput = z.object({
+  nome: z.string().min(1),
+  escopo: z.enum(["regiao", "cliente", "categoria"]),
+  regiao: z.string().optional(),
+  clienteId: z.number().optional(),
+  categoria: categoriaClienteInput.optional(),
+  prioridade: z.number().int().optional(),
+  validoDe: z.date().optional(),
+  validoAte: z.date().optional(),
+});
+
+// Cada escopo exige o campo correspondente preenchido
+function validarEscopoTabelaPreco(tabela: {
+  escopo?: "regiao" | "cliente" | "categoria";
+  regiao?: string;
+  clienteId?: number;
+  categoria?: string;
+}) {
+  if (tabela.escopo === "regiao" && !tabela.regiao) {
+    throw new Error("Informe a região da tabela de preço");
+  }
+  if (tabela.escopo === "cliente" && !tabela.clienteId) {
+    throw new Error("Informe o cliente da tabela de preço");
+  }
+  if (tabela.escopo === "categoria" && !tabela.categoria) {
+    throw new Error("Informe a categoria de cliente da tabela de preço");
+  }
+}
+
+// A vigência vale até o fim do dia de validoAte, então o mesmo dia nas duas pontas é aceito
+function validarVigenciaTabelaPreco(vigencia: { validoDe?: Date | null; validoAte?: Date | null }) {
+  if (vigencia.validoDe && vigencia.validoAte && vigencia.validoDe > vigencia.validoAte) {
+    throw new Error("O início da vigência deve ser anterior ao fim");
+  }
+}
+
+const produtoTipoInput = z.enum(["gas_p13", "agua_mineral", "agua_dessalinizada"]);
+
+// Filtros estruturados são gravados como JSON no campo texto da campanha
+const filtrosCampanhaInput = filtrosCampanhaSchema.transform(filtros => JSON.stringify(filtros));
+
+const tipoMensagemInput = z.enum(["automatica", "promocao", "data_especial", "manual"]);
+
+// Período dos relatórios; sem depósito, o resultado é consolidado
+const periodoRelatorioInput = z.object({
+  dataInicio: z.date().optional(),
+  dataFim: z.date().optional(),
+  depositoId: z.number().optional(),
+}).optional();
+
+const itemPedidoInput = z.object({
+  produtoId: z.number(),
+  quantidade: z.number().int().min(1),
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -16,55 +135,130 @@ export const appRouter = router({
       ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
       return { success: true } as const;
     }),
+    // Perfil de acesso do usuário logado, para a interface esconder o que ele não pode usar
+    acesso: protectedProcedure.query(async ({ ctx }) => {
+      const acesso = await resolverAcessoUsuario(ctx.user);
+      return { ...acesso, permissoes: getPermissoesPerfil(acesso.perfil) };
+    }),
+  }),
+
+  // ============ USUÁRIOS ============
+  usuarios: router({
+    list: procedimentoComPermissao("sistema.configurar").query(async () => {
+      return await db.getUsuariosComPerfil();
+    }),
+
+    definirPerfil: procedimentoComPermissao("sistema.configurar")
+      .input(z.object({
+        usuarioId: z.string().min(1),
+        perfil: z.enum(["admin", "gerente", "vendedor"]),
+        vendedorId: z.number().nullable().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const usuario = await db.getUser(input.usuarioId);
+        if (!usuario) {
+          throw new Error("Usuário não encontrado");
+        }
+        
+        if (input.vendedorId) {
+          const vendedor = await db.getVendedorById(input.vendedorId);
+          if (!vendedor || !vendedor.ativo) {
+            throw new Error("Vendedor não encontrado ou inativo");
+          }
+        } else if (input.perfil === "vendedor") {
+          throw new Error("Vincule o usuário a um vendedor");
+        }
+        
+        await db.definirPerfilUsuario({
+          usuarioId: input.usuarioId,
+          perfil: input.perfil,
+          vendedorId: input.vendedorId ?? null,
+          atualizadoPor: ctx.user.id,
+        });
+        
+        return { success: true };
+      }),
+  }),
+
+  // ============ AUDITORIA ============
+  auditoria: router({
+    list: procedimentoComPermissao("sistema.configurar")
+      .input(z.object({
+        entidade: z.enum(ENTIDADES_AUDITADAS).optional(),
+        entidadeId: z.number().optional(),
+        usuarioId: z.string().optional(),
+        acao: z.enum(["create", "update", "delete"]).optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+        limite: z.number().int().min(1).max(1000).optional().default(200),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getRegistrosAuditoria(input);
+      }),
   }),
 
   // ============ VENDEDORES ============
   vendedores: router({
-    list: protectedProcedure
+    list: procedimentoComPermissao("cadastros.ver")
       .input(z.object({ apenasAtivos: z.boolean().optional().default(true) }).optional())
       .query(async ({ input }) => {
         return await db.getVendedores(input?.apenasAtivos);
       }),
 
-    getById: protectedProcedure
+    getById: procedimentoComPermissao("cadastros.ver")
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
         return await db.getVendedorById(input.id);
       }),
 
-    create: protectedProcedure
+    create: procedimentoComPermissao("vendedores.gerenciar")
       .input(z.object({
         nome: z.string().min(1),
         telefone: z.string().optional(),
         comissao: z.number().optional().default(0),
+        depositoId: z.number().optional(),
       }))
-      .mutation(async ({ input }) => {
-        return await db.createVendedor(input);
+      .mutation(async ({ input, ctx }) => {
+        const { depositoId, ...vendedor } = input;
+        const result = await db.createVendedor(vendedor);
+        // Sem depósito informado, o vendedor trabalha no padrão
+        const deposito = depositoId ?? (await db.getDepositos()).find(d => d.padrao)?.id;
+        if (deposito) {
+          await db.definirDepositoVendedor(result[0].insertId, deposito);
+        }
+        await auditarCriacao(ctx, "vendedores", result[0].insertId);
+        return result;
       }),
 
-    update: protectedProcedure
+    update: procedimentoComPermissao("vendedores.gerenciar")
       .input(z.object({
         id: z.number(),
         nome: z.string().min(1).optional(),
         telefone: z.string().optional(),
         comissao: z.number().optional(),
         ativo: z.boolean().optional(),
+        depositoId: z.number().optional(),
       }))
-      .mutation(async ({ input }) => {
-        const { id, ...data } = input;
-        return await db.updateVendedor(id, data);
+      .mutation(async ({ input, ctx }) => {
+        const { id, depositoId, ...data } = input;
+        return await auditarAlteracao(ctx, "vendedores", id, "update", async () => {
+          if (depositoId) {
+            await db.definirDepositoVendedor(id, depositoId);
+          }
+          return await db.updateVendedor(id, data);
+        });
       }),
 
-    delete: protectedProcedure
+    delete: procedimentoComPermissao("vendedores.gerenciar")
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
-        return await db.deleteVendedor(input.id);
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "vendedores", input.id, "delete", () => db.deleteVendedor(input.id));
       }),
   }),
 
   // ============ CLIENTES ============
   clientes: router({
-    list: protectedProcedure
+    list: procedimentoComPermissao("cadastros.ver")
       .input(z.object({
         bairro: z.string().optional(),
         regiao: z.string().optional(),
@@ -75,13 +269,13 @@ export const appRouter = router({
         return await db.getClientes(input);
       }),
 
-    getById: protectedProcedure
+    getById: procedimentoComPermissao("cadastros.ver")
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
         return await db.getClienteById(input.id);
       }),
 
-    checkDuplicado: protectedProcedure
+    checkDuplicado: procedimentoComPermissao("cadastros.ver")
       .input(z.object({
         nome: z.string(),
         telefone: z.string(),
@@ -91,7 +285,7 @@ export const appRouter = router({
         return await db.checkClienteDuplicado(input.nome, input.telefone, input.excludeId);
       }),
 
-    create: protectedProcedure
+    create: procedimentoComPermissao("clientes.editar")
       .input(z.object({
         nome: z.string().min(1),
         telefone: z.string().min(1),
@@ -100,11 +294,13 @@ export const appRouter = router({
         regiao: z.string().optional(),
         observacoes: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
-        return await db.createCliente(input);
+      .mutation(async ({ input, ctx }) => {
+        const result = await db.createCliente(input);
+        await auditarCriacao(ctx, "clientes", result[0].insertId);
+        return result;
       }),
 
-    update: protectedProcedure
+    update: procedimentoComPermissao("clientes.editar")
       .input(z.object({
         id: z.number(),
         nome: z.string().min(1).optional(),
@@ -115,353 +311,1653 @@ export const appRouter = router({
         observacoes: z.string().optional(),
         ativo: z.boolean().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const { id, ...data } = input;
-        return await db.updateCliente(id, data);
+        return await auditarAlteracao(ctx, "clientes", id, "update", () => db.updateCliente(id, data));
       }),
 
-    delete: protectedProcedure
+    delete: procedimentoComPermissao("clientes.excluir")
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
-        return await db.deleteCliente(input.id);
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "clientes", input.id, "delete", () => db.deleteCliente(input.id));
+      }),
+
+    definirCategoria: procedimentoComPermissao("produtos.gerenciar")
+      .input(z.object({
+        clienteId: z.number(),
+        categoria: categoriaClienteInput,
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "clientes", input.clienteId, "update",
+          () => db.definirCategoriaCliente(input.clienteId, input.categoria),
+          "Categoria de preço do cliente");
       }),
   }),
 
   // ============ PRODUTOS ============
   produtos: router({
-    list: protectedProcedure
+    list: procedimentoComPermissao("cadastros.ver")
       .input(z.object({ apenasAtivos: z.boolean().optional().default(true) }).optional())
       .query(async ({ input }) => {
         return await db.getProdutos(input?.apenasAtivos);
       }),
 
-    getById: protectedProcedure
+    getById: procedimentoComPermissao("cadastros.ver")
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
         return await db.getProdutoById(input.id);
       }),
 
-    create: protectedProcedure
+    create: procedimentoComPermissao("produtos.gerenciar")
       .input(z.object({
         nome: z.string().min(1),
-        tipo: z.enum(["gas_p13", "agua_mineral", "agua_dessalinizada"]),
+        tipo: produtoTipoInput,
         precoCompra: z.number().min(0),
         precoVenda: z.number().min(0),
       }))
-      .mutation(async ({ input }) => {
-        return await db.createProduto(input);
+      .mutation(async ({ input, ctx }) => {
+        const result = await db.createProduto(input);
+        await auditarCriacao(ctx, "produtos", result[0].insertId);
+        return result;
       }),
 
-    update: protectedProcedure
+    update: procedimentoComPermissao("produtos.gerenciar")
       .input(z.object({
         id: z.number(),
         nome: z.string().min(1).optional(),
-        tipo: z.enum(["gas_p13", "agua_mineral", "agua_dessalinizada"]).optional(),
+        tipo: produtoTipoInput.optional(),
         precoCompra: z.number().min(0).optional(),
         precoVenda: z.number().min(0).optional(),
         ativo: z.boolean().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const { id, ...data } = input;
-        return await db.updateProduto(id, data);
+        return await auditarAlteracao(ctx, "produtos", id, "update", () => db.updateProduto(id, data));
+      }),
+
+    precosCliente: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({ clienteId: z.number() }))
+      .query(async ({ input }) => {
+        return await getProdutosComPrecoCliente(input.clienteId);
       }),
   }),
 
-  // ============ ESTOQUE ============
-  estoque: router({
-    list: protectedProcedure.query(async () => {
-      return await db.getEstoque();
-    }),
+  // ============ TABELAS DE PREÇO ============
+  tabelasPreco: router({
+    list: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({
+        escopo: z.enum(["regiao", "cliente", "categoria"]).optional(),
+        clienteId: z.number().optional(),
+        apenasAtivas: z.boolean().optional().default(true),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getTabelasPreco(input);
+      }),
 
-    getByProduto: protectedProcedure
-      .input(z.object({ produtoId: z.number() }))
+    getById: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
-        return await db.getEstoquePorProduto(input.produtoId);
+        return await db.getTabelaPrecoById(input.id);
+      }),
+
+    create: procedimentoComPermissao("produtos.gerenciar")
+      .input(tabelaPrecoInput)
+      .mutation(async ({ input, ctx }) => {
+        validarEscopoTabelaPreco(input);
+        validarVigenciaTabelaPreco(input);
+        const result = await db.createTabelaPreco({
+          ...input,
+          usuarioId: ctx.user?.id,
+        });
+        await auditarCriacao(ctx, "tabelasPreco", result[0].insertId);
+        return result;
+      }),
+
+    update: procedimentoComPermissao("produtos.gerenciar")
+      .input(tabelaPrecoInput.partial().extend({
+        id: z.number(),
+        ativo: z.boolean().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { id, ...data } = input;
+        if (data.escopo) {
+          validarEscopoTabelaPreco(data);
+        }
+        if (data.validoDe || data.validoAte) {
+          const atual = await db.getTabelaPrecoById(id);
+          validarVigenciaTabelaPreco({
+            validoDe: data.validoDe ?? atual?.validoDe,
+            validoAte: data.validoAte ?? atual?.validoAte,
+          });
+        }
+        return await auditarAlteracao(ctx, "tabelasPreco", id, "update", () => db.updateTabelaPreco(id, data));
       }),
 
-    atualizar: protectedProcedure
+    definirItens: procedimentoComPermissao("produtos.gerenciar")
       .input(z.object({
-        produtoId: z.number(),
-        tipo: z.enum(["entrada", "saida"]),
-        quantidade: z.number().min(1),
-        observacao: z.string().optional(),
+        tabelaPrecoId: z.number(),
+        itens: z.array(z.object({
+          produtoId: z.number(),
+          preco: z.number().min(0),
+        })),
       }))
       .mutation(async ({ input, ctx }) => {
-        return await db.atualizarEstoque(
-          input.produtoId,
-          input.tipo,
-          input.quantidade,
-          ctx.user?.id,
-          input.observacao
-        );
+        return await auditarAlteracao(ctx, "tabelasPreco", input.tabelaPrecoId, "update",
+          () => db.definirItensTabelaPreco(input.tabelaPrecoId, input.itens),
+          "Preços da tabela");
+      }),
+
+    delete: procedimentoComPermissao("produtos.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "tabelasPreco", input.id, "delete", () => db.deleteTabelaPreco(input.id));
+      }),
+  }),
+
+  // ============ DEPÓSITOS ============
+  depositos: router({
+    list: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({ apenasAtivos: z.boolean().optional().default(true) }).optional())
+      .query(async ({ input }) => {
+        return await db.getDepositos(input?.apenasAtivos);
+      }),
+
+    getById: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getDepositoById(input.id);
+      }),
+
+    create: procedimentoComPermissao("produtos.gerenciar")
+      .input(z.object({
+        nome: z.string().min(1),
+        endereco: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const result = await db.createDeposito(input);
+        await auditarCriacao(ctx, "depositos", result[0].insertId);
+        return result;
+      }),
+
+    update: procedimentoComPermissao("produtos.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        nome: z.string().min(1).optional(),
+        endereco: z.string().optional(),
+        ativo: z.boolean().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { id, ...data } = input;
+        return await auditarAlteracao(ctx, "depositos", id, "update", () => db.updateDeposito(id, data));
+      }),
+
+    // Saldos por depósito; o consolidado continua em estoque.list
+    estoque: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({ depositoId: z.number().optional() }).optional())
+      .query(async ({ input }) => {
+        return await db.getEstoqueDepositos(input?.depositoId);
       }),
 
-    movimentacoes: protectedProcedure
+    movimentacoes: procedimentoComPermissao("cadastros.ver")
       .input(z.object({
+        depositoId: z.number().optional(),
         produtoId: z.number().optional(),
+        transferenciaId: z.number().optional(),
         dataInicio: z.date().optional(),
         dataFim: z.date().optional(),
       }).optional())
       .query(async ({ input }) => {
-        return await db.getMovimentacoesEstoque(input);
+        return await db.getMovimentacoesDeposito(input);
       }),
-  }),
 
-  // ============ VENDAS ============
-  vendas: router({
-    list: protectedProcedure
+    transferencias: procedimentoComPermissao("cadastros.ver")
       .input(z.object({
-        clienteId: z.number().optional(),
-        vendedorId: z.number().optional(),
+        depositoId: z.number().optional(),
         dataInicio: z.date().optional(),
         dataFim: z.date().optional(),
       }).optional())
       .query(async ({ input }) => {
-        return await db.getVendas(input);
-      }),
-
-    getById: protectedProcedure
-      .input(z.object({ id: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getVendaById(input.id);
+        return await db.getTransferenciasEstoque(input);
       }),
 
-    create: protectedProcedure
+    transferir: procedimentoComPermissao("produtos.gerenciar")
       .input(z.object({
-        clienteId: z.number(),
-        vendedorId: z.number(),
-        formaPagamento: z.enum(["dinheiro", "cartao_credito", "cartao_debito", "pix", "outros"]),
-        observacoes: z.string().optional(),
+        origemId: z.number(),
+        destinoId: z.number(),
+        observacao: z.string().optional(),
         itens: z.array(z.object({
           produtoId: z.number(),
-          quantidade: z.number().min(1),
-          precoUnitario: z.number().min(0),
-          subtotal: z.number().min(0),
+          quantidade: z.number().int().min(1),
         })).min(1),
       }))
       .mutation(async ({ input, ctx }) => {
-        const { itens, ...vendaData } = input;
-        
-        // Calcular total e lucro
-        const total = itens.reduce((sum, item) => sum + item.subtotal, 0);
-        
-        // Buscar preços de compra para calcular lucro
-        let lucro = 0;
-        for (const item of itens) {
-          const produto = await db.getProdutoById(item.produtoId);
-          if (produto) {
-            const custoItem = produto.precoCompra * item.quantidade;
-            lucro += item.subtotal - custoItem;
-          }
-        }
+        const { itens, ...transferencia } = input;
+        const resultado = await db.transferirEstoque({ ...transferencia, usuarioId: ctx.user?.id }, itens);
         
-        const vendaId = await db.createVenda(
-          {
-            ...vendaData,
-            total,
-            lucro,
-            usuarioId: ctx.user?.id,
-          },
-          itens
-        );
+        await registrarAuditoria(ctx, {
+          entidade: "estoque",
+          acao: "update",
+          descricao: `Transferência #${resultado.transferenciaId} do depósito #${input.origemId} para o #${input.destinoId}`,
+          depois: input,
+        });
         
-        return { vendaId, total, lucro };
+        return resultado;
       }),
   }),
 
-  // ============ DESPESAS ============
-  despesas: router({
-    list: protectedProcedure
+  // ============ FORNECEDORES ============
+  fornecedores: router({
+    list: procedimentoComPermissao("compras.gerenciar")
       .input(z.object({
-        dataInicio: z.date().optional(),
-        dataFim: z.date().optional(),
-        categoria: z.string().optional(),
+        busca: z.string().optional(),
+        apenasAtivos: z.boolean().optional().default(true),
       }).optional())
       .query(async ({ input }) => {
-        return await db.getDespesas(input);
+        return await db.getFornecedores(input);
+      }),
+
+    getById: procedimentoComPermissao("compras.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getFornecedorById(input.id);
       }),
 
-    create: protectedProcedure
+    create: procedimentoComPermissao("compras.gerenciar")
       .input(z.object({
-        descricao: z.string().min(1),
-        valor: z.number().min(0),
-        categoria: z.string().optional(),
-        vendedorId: z.number().optional(),
+        nome: z.string().min(1),
+        documento: z.string().optional(),
+        telefone: z.string().optional(),
+        email: z.string().email().optional(),
         observacoes: z.string().optional(),
       }))
       .mutation(async ({ input, ctx }) => {
-        return await db.createDespesa({
+        const result = await db.createFornecedor({
           ...input,
-          data: new Date(),
-          usuarioId: ctx.user?.id,
+          documento: normalizarDocumento(input.documento),
         });
+        await auditarCriacao(ctx, "fornecedores", result[0].insertId);
+        return result;
       }),
 
-    update: protectedProcedure
+    update: procedimentoComPermissao("compras.gerenciar")
       .input(z.object({
         id: z.number(),
-        descricao: z.string().min(1).optional(),
-        valor: z.number().min(0).optional(),
-        categoria: z.string().optional(),
-        vendedorId: z.number().optional(),
+        nome: z.string().min(1).optional(),
+        documento: z.string().optional(),
+        telefone: z.string().optional(),
+        email: z.string().email().optional(),
         observacoes: z.string().optional(),
+        ativo: z.boolean().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const { id, ...data } = input;
-        return await db.updateDespesa(id, data);
-      }),
-
-    delete: protectedProcedure
-      .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
-        return await db.deleteDespesa(input.id);
+        return await auditarAlteracao(ctx, "fornecedores", id, "update", () => db.updateFornecedor(id, {
+          ...data,
+          documento: data.documento === undefined ? undefined : normalizarDocumento(data.documento),
+        }));
       }),
   }),
 
-  // ============ MENSAGENS ============
-  mensagens: router({
-    list: protectedProcedure
+  // ============ COMPRAS ============
+  compras: router({
+    // Com status "aberta", funciona como a lista de contas a pagar
+    list: procedimentoComPermissao("compras.gerenciar")
       .input(z.object({
-        clienteId: z.number().optional(),
-        tipo: z.string().optional(),
-        status: z.string().optional(),
+        fornecedorId: z.number().optional(),
+        depositoId: z.number().optional(),
+        status: z.enum(["aberta", "paga", "cancelada"]).optional(),
+        vencidas: z.boolean().optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
       }).optional())
       .query(async ({ input }) => {
-        return await db.getMensagens(input);
+        return await db.getCompras(input);
+      }),
+
+    getById: procedimentoComPermissao("compras.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getCompraById(input.id);
       }),
 
-    create: protectedProcedure
+    create: procedimentoComPermissao("compras.gerenciar")
       .input(z.object({
-        clienteId: z.number(),
-        tipo: z.enum(["automatica", "promocao", "data_especial", "manual"]),
-        conteudo: z.string().min(1),
+        fornecedorId: z.number(),
+        depositoId: z.number().optional(),
+        numeroNotaFiscal: z.string().trim().min(1),
+        dataEmissao: z.date(),
+        frete: z.number().min(0).optional(),
+        vencimento: z.date().optional(),
+        observacoes: z.string().optional(),
+        itens: z.array(z.object({
+          produtoId: z.number(),
+          quantidade: z.number().int().min(1),
+          custoUnitario: z.number().min(0),
+        })).min(1),
       }))
       .mutation(async ({ input, ctx }) => {
-        // Buscar dados do cliente
-        const cliente = await db.getClienteById(input.clienteId);
-        if (!cliente) {
-          throw new Error("Cliente não encontrado");
-        }
-
-        if (!cliente.telefone) {
-          throw new Error("Cliente não possui telefone cadastrado");
-        }
-
-        // Enviar mensagem via WhatsApp
-        const resultado = await enviarMensagemBaileys({         telefone: cliente.telefone,
-          mensagem: input.conteudo,
-        });
-
-        // Salvar mensagem no banco de dados
-        await db.createMensagem({
-          ...input,
-          status: resultado.success ? "enviada" : "erro",
-          dataEnvio: resultado.success ? new Date() : null,
-          usuarioId: ctx.user?.id,
-        });
-
-        if (!resultado.success) {
-          throw new Error(resultado.error || "Erro ao enviar mensagem");
-        }
+        const { compra, itens } = await prepararCompra({ ...input, usuarioId: ctx.user?.id });
+        const resultado = await db.registrarCompra(compra, itens);
+        
+        await auditarCriacao(ctx, "compras", resultado.compraId,
+          `NF ${compra.numeroNotaFiscal}: entrada de ${itens.length} produto(s) no depósito #${resultado.depositoId}`);
+        
+        return { ...resultado, valorTotal: compra.valorTotal, itens };
+      }),
 
-        return {
-          success: true,
-          messageId: resultado.messageId,
-        };
+    pagar: procedimentoComPermissao("compras.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "compras", input.id, "update",
+          () => db.pagarCompra(input.id),
+          "Pagamento ao fornecedor");
       }),
 
-    updateStatus: protectedProcedure
+    cancelar: procedimentoComPermissao("compras.gerenciar")
       .input(z.object({
         id: z.number(),
-        status: z.enum(["pendente", "enviada", "erro", "entregue", "lida"]),
+        motivo: z.string().min(1),
       }))
-      .mutation(async ({ input }) => {
-        return await db.updateMensagemStatus(input.id, input.status);
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "compras", input.id, "update",
+          () => db.cancelarCompra(input.id, input.motivo, ctx.user?.id),
+          `Cancelamento: ${input.motivo}`);
       }),
   }),
 
-  // ============ CAMPANHAS ============
-  campanhas: router({
-    list: protectedProcedure.query(async () => {
-      return await db.getCampanhas();
+  // ============ ESTOQUE ============
+  estoque: router({
+    list: procedimentoComPermissao("cadastros.ver").query(async () => {
+      return await db.getEstoque();
     }),
 
-    getById: protectedProcedure
-      .input(z.object({ id: z.number() }))
+    getByProduto: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({ produtoId: z.number() }))
       .query(async ({ input }) => {
-        return await db.getCampanhaById(input.id);
+        return await db.getEstoquePorProduto(input.produtoId);
       }),
 
-    create: protectedProcedure
+    atualizar: procedimentoComPermissao("produtos.gerenciar")
       .input(z.object({
-        nome: z.string().min(1),
+        produtoId: z.number(),
+        tipo: z.enum(["entrada", "saida"]),
+        quantidade: z.number().min(1),
+        observacao: z.string().optional(),
+        // Sem depósito, movimenta o padrão
+        depositoId: z.number().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const resultado = await db.atualizarEstoque(
+          input.produtoId,
+          input.tipo,
+          input.quantidade,
+          ctx.user?.id,
+          input.observacao,
+          input.depositoId
+        );
+        
+        await registrarAuditoria(ctx, {
+          entidade: "estoque",
+          entidadeId: input.produtoId,
+          acao: "update",
+          descricao: `${input.tipo === "entrada" ? "Entrada" : "Saída"} de ${input.quantidade} unidade(s) no depósito #${resultado.depositoId}`
+            + (input.observacao ? `: ${input.observacao}` : ""),
+          antes: { produtoId: input.produtoId, quantidade: resultado.quantidadeAnterior },
+          depois: { produtoId: input.produtoId, quantidade: resultado.quantidadeAtual },
+        });
+        
+        return resultado;
+      }),
+
+    movimentacoes: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({
+        produtoId: z.number().optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getMovimentacoesEstoque(input);
+      }),
+
+    atualizarVasilhames: procedimentoComPermissao("produtos.gerenciar")
+      .input(z.object({
+        produtoId: z.number(),
+        tipo: z.enum(["entrada", "saida"]),
+        quantidade: z.number().int().min(1),
+        observacao: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const resultado = await db.atualizarEstoqueVasilhames(
+          input.produtoId,
+          input.tipo,
+          input.quantidade,
+          ctx.user?.id,
+          input.observacao
+        );
+        
+        await registrarAuditoria(ctx, {
+          entidade: "vasilhames",
+          entidadeId: input.produtoId,
+          acao: "update",
+          descricao: `${input.tipo === "entrada" ? "Entrada" : "Saída"} de ${input.quantidade} vasilhame(s) vazio(s)`,
+          depois: input,
+        });
+        
+        return resultado;
+      }),
+
+    devolverVasilhames: procedimentoComPermissao("vendas.registrar")
+      .input(z.object({
+        clienteId: z.number(),
+        produtoId: z.number(),
+        quantidade: z.number().int().min(1),
+        observacao: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const resultado = await db.devolverVasilhamesEmprestados(
+          input.clienteId,
+          input.produtoId,
+          input.quantidade,
+          ctx.user?.id,
+          input.observacao
+        );
+        
+        await registrarAuditoria(ctx, {
+          entidade: "vasilhames",
+          entidadeId: input.produtoId,
+          acao: "update",
+          descricao: `Devolução de ${input.quantidade} vasilhame(s) emprestado(s) pelo cliente #${input.clienteId}`,
+          depois: input,
+        });
+        
+        return resultado;
+      }),
+
+    movimentacoesVasilhames: procedimentoComPermissao("cadastros.ver")
+      .input(z.object({
+        produtoId: z.number().optional(),
+        clienteId: z.number().optional(),
+        vendaId: z.number().optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getMovimentacoesVasilhames(input);
+      }),
+  }),
+
+  // ============ VENDAS ============
+  vendas: router({
+    list: procedimentoComPermissao("vendas.registrar")
+      .input(z.object({
+        clienteId: z.number().optional(),
+        vendedorId: z.number().optional(),
+        depositoId: z.number().optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+        apenasAtivas: z.boolean().optional().default(true),
+      }).optional())
+      .query(async ({ input, ctx }) => {
+        const restrito = vendedorRestrito(ctx.acesso);
+        return await db.getVendas({ ...input, vendedorId: restrito ?? input?.vendedorId });
+      }),
+
+    getById: procedimentoComPermissao("vendas.registrar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const venda = await db.getVendaById(input.id);
+        if (venda) {
+          exigirVendedorProprio(ctx.acesso, venda.vendedorId);
+        }
+        return venda;
+      }),
+
+    calcular: procedimentoComPermissao("vendas.registrar")
+      .input(z.object({
+        clienteId: z.number().optional(),
+        itens: z.array(itemVendaInput).min(1),
+        desconto: descontoInput.optional(),
+      }))
+      .query(async ({ input, ctx }) => {
+        return await calcularVenda({ ...input, perfil: ctx.acesso.perfil });
+      }),
+
+    create: procedimentoComPermissao("vendas.registrar")
+      .input(z.object({
+        clienteId: z.number(),
+        vendedorId: z.number(),
+        depositoId: z.number().optional(),
+        formaPagamento: formaPagamentoInput,
+        vencimento: z.date().optional(),
+        observacoes: z.string().optional(),
+        itens: z.array(itemVendaInput).min(1),
+        desconto: descontoInput.optional(),
+        total: z.number().min(0).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { total: totalInformado, ...vendaData } = input;
+        exigirVendedorProprio(ctx.acesso, input.vendedorId);
+        
+        // Preços e descontos são calculados no servidor; valores do cliente só conferem
+        const { calculo, venda, itens, descontos, aPrazo } = await prepararVenda({
+          ...vendaData,
+          totalInformado,
+          perfil: ctx.acesso.perfil,
+          usuarioId: ctx.user?.id,
+        });
+        
+        const vendaId = await db.createVenda(venda, itens, descontos, aPrazo);
+        await auditarCriacao(ctx, "vendas", vendaId);
+        
+        return { vendaId, ...calculo };
+      }),
+
+    cancelar: procedimentoComPermissao("vendas.cancelar")
+      .input(z.object({
+        id: z.number(),
+        motivo: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "vendas", input.id, "update",
+          () => db.cancelarVenda(input.id, input.motivo, ctx.user?.id),
+          `Cancelamento: ${input.motivo}`);
+      }),
+  }),
+
+  // ============ PEDIDOS ============
+  pedidos: router({
+    list: procedimentoComPermissao("pedidos.entregar")
+      .input(z.object({
+        status: z.array(z.enum(["rascunho", "recebido", "em_rota", "entregue", "cancelado"])).optional(),
+        vendedorId: z.number().optional(),
+        clienteId: z.number().optional(),
+        semVendedor: z.boolean().optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+      }).optional())
+      .query(async ({ input, ctx }) => {
+        const restrito = vendedorRestrito(ctx.acesso);
+        const lista = await db.getPedidos(restrito === undefined
+          ? input
+          : { ...input, vendedorId: restrito, semVendedor: undefined });
+        const itens = await db.getItensPedidos(lista.map(pedido => pedido.id));
+        
+        return lista.map(pedido => ({
+          ...pedido,
+          itens: itens.filter(item => item.pedidoId === pedido.id),
+        }));
+      }),
+
+    getById: procedimentoComPermissao("pedidos.entregar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const pedido = await db.getPedidoById(input.id);
+        if (pedido) {
+          exigirVendedorProprio(ctx.acesso, pedido.vendedorId);
+        }
+        return pedido;
+      }),
+
+    create: procedimentoComPermissao("pedidos.registrar")
+      .input(z.object({
+        clienteId: z.number(),
+        vendedorId: z.number().optional(),
+        origem: z.enum(["telefone", "whatsapp", "balcao", "outros"]).optional(),
+        endereco: z.string().optional(),
+        horarioDesejado: z.date().optional(),
+        formaPagamento: formaPagamentoInput.optional(),
+        observacoes: z.string().optional(),
+        itens: z.array(itemPedidoInput).min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { itens, ...pedido } = input;
+        
+        const cliente = await db.getClienteById(input.clienteId);
+        if (!cliente) {
+          throw new Error("Cliente não encontrado");
+        }
+        
+        // Sem endereço informado, entrega no endereço do cadastro
+        const pedidoId = await db.createPedido({
+          ...pedido,
+          endereco: pedido.endereco || cliente.endereco,
+          bairro: cliente.bairro,
+          regiao: cliente.regiao,
+          usuarioId: ctx.user?.id,
+        }, itens);
+        
+        return { pedidoId };
+      }),
+
+    update: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        endereco: z.string().optional(),
+        horarioDesejado: z.date().optional(),
+        formaPagamento: formaPagamentoInput.optional(),
+        observacoes: z.string().optional(),
+        itens: z.array(itemPedidoInput).min(1).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { id, itens, ...data } = input;
+        
+        const pedido = await db.getPedidoById(id);
+        if (!pedido) {
+          throw new Error("Pedido não encontrado");
+        }
+        if (pedido.status !== "recebido" && pedido.status !== "rascunho") {
+          throw new Error("Somente pedidos recebidos podem ser alterados");
+        }
+        
+        return await db.updatePedido(id, data, itens);
+      }),
+
+    // Rascunhos do assistente do WhatsApp entram na fila após aprovação
+    aprovar: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await db.alterarStatusPedido(input.id, ["rascunho"], {
+          status: "recebido",
+          usuarioId: ctx.user?.id,
+        });
+      }),
+
+    atribuir: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        vendedorId: z.number(),
+      }))
+      .mutation(async ({ input }) => {
+        const vendedor = await db.getVendedorById(input.vendedorId);
+        if (!vendedor || !vendedor.ativo) {
+          throw new Error("Vendedor não encontrado ou inativo");
+        }
+        
+        return await db.alterarStatusPedido(input.id, ["recebido"], {
+          vendedorId: input.vendedorId,
+        });
+      }),
+
+    sairParaEntrega: procedimentoComPermissao("pedidos.entregar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const pedido = await db.getPedidoById(input.id);
+        if (!pedido) {
+          throw new Error("Pedido não encontrado");
+        }
+        exigirVendedorProprio(ctx.acesso, pedido.vendedorId);
+        if (!pedido.vendedorId) {
+          throw new Error("Atribua um entregador antes de sair para entrega");
+        }
+        
+        return await db.alterarStatusPedido(input.id, ["recebido"], {
+          status: "em_rota",
+          saiuParaEntregaEm: new Date(),
+        });
+      }),
+
+    voltarParaFila: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.alterarStatusPedido(input.id, ["em_rota"], {
+          status: "recebido",
+          saiuParaEntregaEm: null,
+        });
+      }),
+
+    entregar: procedimentoComPermissao("pedidos.entregar")
+      .input(z.object({
+        id: z.number(),
+        formaPagamento: formaPagamentoInput.optional(),
+        vencimento: z.date().optional(),
+        desconto: descontoInput.optional(),
+        vasilhames: z.array(vasilhameInput.extend({ produtoId: z.number() })).optional(),
+        observacoes: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const pedido = await db.getPedidoById(input.id);
+        if (!pedido) {
+          throw new Error("Pedido não encontrado");
+        }
+        if (!pedido.vendedorId) {
+          throw new Error("Pedido sem entregador atribuído");
+        }
+        exigirVendedorProprio(ctx.acesso, pedido.vendedorId);
+        
+        const formaPagamento = input.formaPagamento ?? pedido.formaPagamento;
+        if (!formaPagamento) {
+          throw new Error("Informe a forma de pagamento");
+        }
+        
+        const { calculo, venda, itens, descontos, aPrazo } = await prepararVenda({
+          clienteId: pedido.clienteId,
+          vendedorId: pedido.vendedorId,
+          formaPagamento,
+          vencimento: input.vencimento,
+          observacoes: input.observacoes ?? pedido.observacoes ?? undefined,
+          itens: pedido.itens.map(item => {
+            const vasilhame = input.vasilhames?.find(v => v.produtoId === item.produtoId);
+            return {
+              produtoId: item.produtoId,
+              quantidade: item.quantidade,
+              vasilhame: vasilhame && {
+                devolvidos: vasilhame.devolvidos,
+                vendidos: vasilhame.vendidos,
+                emprestados: vasilhame.emprestados,
+              },
+            };
+          }),
+          desconto: input.desconto,
+          perfil: ctx.acesso.perfil,
+          usuarioId: ctx.user?.id,
+        });
+        
+        const vendaId = await db.entregarPedido(input.id, venda, itens, descontos, aPrazo);
+        await auditarCriacao(ctx, "vendas", vendaId, `Entrega do pedido #${input.id}`);
+        
+        return { pedidoId: input.id, vendaId, ...calculo };
+      }),
+
+    cancelar: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        motivo: z.string().min(1),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.alterarStatusPedido(input.id, ["rascunho", "recebido", "em_rota"], {
+          status: "cancelado",
+          motivoCancelamento: input.motivo,
+          canceladoEm: new Date(),
+        });
+      }),
+  }),
+
+  // ============ ROTAS DE ENTREGA ============
+  rotas: router({
+    planejar: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({
+        vendedorIds: z.array(z.number()).min(1),
+        capacidadeP13: z.number().int().min(1),
+        capacidadeGaloes: z.number().int().min(0),
+        inicio: z.date().optional(),
+        fim: z.date().optional(),
+      }))
+      .query(async ({ input }) => {
+        return await planejarRotas({
+          vendedorIds: input.vendedorIds,
+          capacidade: { p13: input.capacidadeP13, galoes: input.capacidadeGaloes },
+          inicio: input.inicio,
+          fim: input.fim,
+        });
+      }),
+
+    aplicar: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({
+        atribuicoes: z.array(z.object({
+          pedidoId: z.number(),
+          vendedorId: z.number(),
+        })).min(1),
+      }))
+      .mutation(async ({ input }) => {
+        for (const atribuicao of input.atribuicoes) {
+          await db.alterarStatusPedido(atribuicao.pedidoId, ["recebido"], {
+            vendedorId: atribuicao.vendedorId,
+          });
+        }
+        return { success: true, total: input.atribuicoes.length };
+      }),
+
+    enviar: procedimentoComPermissao("pedidos.gerenciar")
+      .input(z.object({
+        vendedorId: z.number(),
+        texto: z.string().min(1),
+      }))
+      .mutation(async ({ input }) => {
+        const vendedor = await db.getVendedorById(input.vendedorId);
+        if (!vendedor) {
+          throw new Error("Vendedor não encontrado");
+        }
+
+        if (!vendedor.telefone) {
+          throw new Error("Vendedor não possui telefone cadastrado");
+        }
+
+        const resultado = await enviarMensagem({
+          telefone: vendedor.telefone,
+          mensagem: input.texto,
+        });
+
+        if (!resultado.success) {
+          throw new Error(resultado.error || "Erro ao enviar rota");
+        }
+
+        return {
+          success: true,
+          messageId: resultado.messageId,
+        };
+      }),
+  }),
+
+  // ============ CONTAS A RECEBER ============
+  contasReceber: router({
+    list: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        clienteId: z.number().optional(),
+        status: z.enum(["aberta", "paga", "cancelada"]).optional(),
+        vencidas: z.boolean().optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getContasReceber(input);
+      }),
+
+    getById: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getContaReceberById(input.id);
+      }),
+
+    saldoCliente: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ clienteId: z.number() }))
+      .query(async ({ input }) => {
+        const contas = await db.getContasReceber({ clienteId: input.clienteId, status: "aberta" });
+        const saldo = contas.reduce((sum, conta) => sum + conta.saldo, 0);
+        const vencido = contas
+          .filter(conta => conta.vencimento <= new Date())
+          .reduce((sum, conta) => sum + conta.saldo, 0);
+
+        return {
+          clienteId: input.clienteId,
+          saldo,
+          vencido,
+          contas,
+        };
+      }),
+
+    create: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        clienteId: z.number(),
+        descricao: z.string().min(1),
+        valor: z.number().positive(),
+        vencimento: z.date(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await db.createContaReceber({
+          ...input,
+          usuarioId: ctx.user?.id,
+        });
+      }),
+
+    registrarPagamento: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        contaReceberId: z.number(),
+        valor: z.number().positive(),
+        formaPagamento: formaRecebimentoInput,
+        observacao: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await db.registrarPagamentoContaReceber(
+          input.contaReceberId,
+          input.valor,
+          input.formaPagamento,
+          ctx.user?.id,
+          input.observacao
+        );
+      }),
+
+    cancelar: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.cancelarContaReceber(input.id);
+      }),
+
+    enviarLembretes: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        clienteIds: z.array(z.number()).optional(),
+        intervaloMinimoDias: z.number().int().min(0).optional().default(3),
+      }).optional())
+      .mutation(async ({ input, ctx }) => {
+        return await enviarLembretesVencidos({
+          clienteIds: input?.clienteIds,
+          intervaloMinimoDias: input?.intervaloMinimoDias ?? 3,
+          usuarioId: ctx.user?.id,
+        });
+      }),
+  }),
+
+  // ============ DESPESAS ============
+  despesas: router({
+    list: procedimentoComPermissao("despesas.registrar")
+      .input(z.object({
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+        categoria: z.string().optional(),
+        vendedorId: z.number().optional(),
+      }).optional())
+      .query(async ({ input, ctx }) => {
+        const restrito = vendedorRestrito(ctx.acesso);
+        return await db.getDespesas({ ...input, vendedorId: restrito ?? input?.vendedorId });
+      }),
+
+    create: procedimentoComPermissao("despesas.registrar")
+      .input(z.object({
+        descricao: z.string().min(1),
+        valor: z.number().min(0),
+        categoria: z.string().optional(),
+        vendedorId: z.number().optional(),
+        observacoes: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        // Despesa lançada por vendedor é sempre dele
+        const restrito = vendedorRestrito(ctx.acesso);
+        if (input.vendedorId !== undefined) {
+          exigirVendedorProprio(ctx.acesso, input.vendedorId);
+        }
+        
+        const result = await db.createDespesa({
+          ...input,
+          vendedorId: restrito ?? input.vendedorId,
+          data: new Date(),
+          usuarioId: ctx.user?.id,
+        });
+        await auditarCriacao(ctx, "despesas", result[0].insertId);
+        return result;
+      }),
+
+    update: procedimentoComPermissao("despesas.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        descricao: z.string().min(1).optional(),
+        valor: z.number().min(0).optional(),
+        categoria: z.string().optional(),
+        vendedorId: z.number().optional(),
+        observacoes: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { id, ...data } = input;
+        return await auditarAlteracao(ctx, "despesas", id, "update", () => db.updateDespesa(id, data));
+      }),
+
+    delete: procedimentoComPermissao("despesas.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "despesas", input.id, "delete", () => db.deleteDespesa(input.id));
+      }),
+  }),
+
+  // ============ CAIXA ============
+  caixa: router({
+    list: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        vendedorId: z.number().optional(),
+        status: z.enum(["aberto", "fechado"]).optional(),
+        dataInicio: z.date().optional(),
+        dataFim: z.date().optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getCaixas(input);
+      }),
+
+    relatorio: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await getRelatorioCaixa(input.id);
+      }),
+
+    abrir: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        vendedorId: z.number(),
+        valorAbertura: z.number().min(0),
+        observacoes: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const caixaId = await db.abrirCaixa(
+          input.vendedorId,
+          input.valorAbertura,
+          ctx.user?.id,
+          input.observacoes
+        );
+        return { caixaId };
+      }),
+
+    movimentar: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        caixaId: z.number(),
+        tipo: z.enum(["sangria", "suprimento"]),
+        valor: z.number().positive(),
+        observacao: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await db.registrarMovimentacaoCaixa({
+          ...input,
+          usuarioId: ctx.user?.id,
+        });
+      }),
+
+    fechar: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        caixaId: z.number(),
+        valorContado: z.number().min(0),
+        observacoes: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await fecharCaixa({
+          ...input,
+          usuarioId: ctx.user?.id,
+        });
+      }),
+  }),
+
+  // ============ COMISSÕES ============
+  comissoes: router({
+    regras: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ apenasAtivas: z.boolean().optional().default(true) }).optional())
+      .query(async ({ input }) => {
+        return await db.getRegrasComissao(input?.apenasAtivas);
+      }),
+
+    createRegra: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        vendedorId: z.number().optional(),
+        produtoTipo: produtoTipoInput.optional(),
+        base: z.enum(["venda", "lucro"]),
+        percentual: z.number().min(0).max(100),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.createRegraComissao(input);
+      }),
+
+    updateRegra: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        base: z.enum(["venda", "lucro"]).optional(),
+        percentual: z.number().min(0).max(100).optional(),
+        ativo: z.boolean().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        return await db.updateRegraComissao(id, data);
+      }),
+
+    deleteRegra: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.deleteRegraComissao(input.id);
+      }),
+
+    calcular: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        vendedorId: z.number(),
+        periodoInicio: z.date(),
+        periodoFim: z.date(),
+      }))
+      .query(async ({ input }) => {
+        return await calcularComissao(input.vendedorId, input.periodoInicio, input.periodoFim);
+      }),
+
+    fecharExtrato: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        vendedorId: z.number(),
+        periodoInicio: z.date(),
+        periodoFim: z.date(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await fecharExtratoComissao(input.vendedorId, input.periodoInicio, input.periodoFim, ctx.user?.id);
+      }),
+
+    extratos: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({
+        vendedorId: z.number().optional(),
+        status: z.enum(["fechado", "pago"]).optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getExtratosComissao(input);
+      }),
+
+    getExtrato: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getExtratoComissaoById(input.id);
+      }),
+
+    marcarPago: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await db.marcarExtratoComissaoPago(input.id, ctx.user?.id);
+      }),
+  }),
+
+  // ============ MENSAGENS ============
+  mensagens: router({
+    list: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        clienteId: z.number().optional(),
+        tipo: z.string().optional(),
+        status: z.string().optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getMensagens(input);
+      }),
+
+    create: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        clienteId: z.number(),
+        tipo: tipoMensagemInput,
+        conteudo: z.string().min(1).optional(),
+        modeloId: z.number().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        // Buscar dados do cliente
+        const cliente = await db.getClienteById(input.clienteId);
+        if (!cliente) {
+          throw new Error("Cliente não encontrado");
+        }
+
+        if (!cliente.telefone) {
+          throw new Error("Cliente não possui telefone cadastrado");
+        }
+
+        const { mensagem } = await renderizarMensagem(await resolverConteudoModelo(input), cliente.id);
+
+        // Primeira tentativa na hora; se falhar, a fila tenta de novo
+        const resultado = await enviarMensagemComFila({
+          clienteId: cliente.id,
+          tipo: input.tipo,
+          conteudo: mensagem,
+          usuarioId: ctx.user?.id,
+        });
+
+        return {
+          success: true,
+          mensagemId: resultado.mensagemId,
+          status: resultado.enviada ? "enviada" as const : "pendente" as const,
+          messageId: resultado.messageId,
+          erro: resultado.erro,
+        };
+      }),
+
+    // Reenvia as mensagens com erro indicadas ou, sem ids, todas as com erro
+    reenviar: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        ids: z.array(z.number()).min(1).optional(),
+        clienteId: z.number().optional(),
+      }).optional())
+      .mutation(async ({ input }) => {
+        const ids = input?.ids
+          ?? (await db.getMensagens({ clienteId: input?.clienteId, status: "erro" })).map(m => m.id);
+        return await reenviarMensagens(ids);
+      }),
+
+    updateStatus: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        status: z.enum(["pendente", "enviada", "erro", "entregue", "lida"]),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.updateMensagemStatus(input.id, input.status);
+      }),
+  }),
+
+  // ============ CONSENTIMENTO (LGPD) ============
+  consentimento: router({
+    get: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ clienteId: z.number() }))
+      .query(async ({ input }) => {
+        const atual = await db.getConsentimentoCliente(input.clienteId);
+        const historico = await db.getHistoricoConsentimento(input.clienteId);
+        
+        return {
+          // Sem registro o cliente não consentiu e não recebe marketing
+          consentido: atual?.consentido ?? false,
+          atual,
+          historico,
+        };
+      }),
+
+    definir: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        clienteId: z.number(),
+        consentido: z.boolean(),
+        origem: z.enum(["whatsapp", "cadastro", "balcao", "telefone", "outro"]),
+        detalhe: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const cliente = await db.getClienteById(input.clienteId);
+        if (!cliente) {
+          throw new Error("Cliente não encontrado");
+        }
+        
+        await db.registrarConsentimento({
+          ...input,
+          usuarioId: ctx.user?.id,
+        });
+        
+        return { success: true };
+      }),
+
+    exportar: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ clienteId: z.number() }))
+      .query(async ({ input }) => {
+        return await exportarHistoricoConsentimento(input.clienteId);
+      }),
+  }),
+
+  // ============ CONVERSAS ============
+  conversas: router({
+    list: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ apenasNaoLidas: z.boolean().optional() }).optional())
+      .query(async ({ input }) => {
+        return await db.getConversas(input);
+      }),
+
+    get: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ clienteId: z.number() }))
+      .query(async ({ input }) => {
+        return await getConversa(input.clienteId);
+      }),
+
+    marcarLidas: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ clienteId: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.marcarMensagensRecebidasLidas(input.clienteId);
+      }),
+
+    reprocessarAudio: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ mensagemId: z.number() }))
+      .mutation(async ({ input }) => {
+        return await processarAudio(input.mensagemId);
+      }),
+  }),
+
+  // ============ MODELOS DE MENSAGEM ============
+  modelos: router({
+    list: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        tipo: tipoMensagemInput.optional(),
+        apenasAtivos: z.boolean().optional().default(true),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getModelosMensagem(input);
+      }),
+
+    getById: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getModeloMensagemById(input.id);
+      }),
+
+    placeholders: procedimentoComPermissao("mensagens.gerenciar").query(() => {
+      return getPlaceholdersDisponiveis();
+    }),
+
+    create: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        nome: z.string().min(1),
+        tipo: tipoMensagemInput,
+        conteudo: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        validarModelo(input.conteudo);
+        return await db.createModeloMensagem({
+          ...input,
+          usuarioId: ctx.user?.id,
+        });
+      }),
+
+    update: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        id: z.number(),
+        nome: z.string().min(1).optional(),
+        tipo: tipoMensagemInput.optional(),
+        conteudo: z.string().min(1).optional(),
+        ativo: z.boolean().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        if (data.conteudo) {
+          validarModelo(data.conteudo);
+        }
+        return await db.updateModeloMensagem(id, data);
+      }),
+
+    delete: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.deleteModeloMensagem(input.id);
+      }),
+
+    // Sem cliente, a prévia usa valores de exemplo
+    preview: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        conteudo: z.string().min(1).optional(),
+        modeloId: z.number().optional(),
+        clienteId: z.number().optional(),
+      }))
+      .query(async ({ input }) => {
+        return await previsualizarMensagem(await resolverConteudoModelo(input), input.clienteId);
+      }),
+  }),
+
+  // ============ CAMPANHAS ============
+  campanhas: router({
+    list: procedimentoComPermissao("mensagens.gerenciar").query(async () => {
+      return await db.getCampanhas();
+    }),
+
+    getById: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getCampanhaById(input.id);
+      }),
+
+    create: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        nome: z.string().min(1),
         tipo: z.enum(["promocao", "data_especial", "reativacao"]),
-        mensagem: z.string().min(1),
-        filtros: z.string().optional(),
+        mensagem: z.string().min(1).optional(),
+        modeloId: z.number().optional(),
+        filtros: filtrosCampanhaInput.optional(),
         dataAgendamento: z.date().optional(),
       }))
       .mutation(async ({ input, ctx }) => {
-        return await db.createCampanha({
-          ...input,
+        const { modeloId, ...campanha } = input;
+        // O texto do modelo é copiado: editar o modelo depois não muda a campanha
+        const mensagem = await resolverConteudoModelo({ conteudo: campanha.mensagem, modeloId });
+        validarModelo(mensagem);
+        
+        // Com data de agendamento, a campanha já nasce agendada para o agendador
+        const result = await db.createCampanha({
+          ...campanha,
+          mensagem,
+          status: input.dataAgendamento ? "agendada" : "rascunho",
           usuarioId: ctx.user?.id,
         });
+        await auditarCriacao(ctx, "campanhas", result[0].insertId);
+        return result;
       }),
 
-    update: protectedProcedure
+    update: procedimentoComPermissao("mensagens.gerenciar")
       .input(z.object({
         id: z.number(),
         nome: z.string().optional(),
         tipo: z.enum(["promocao", "data_especial", "reativacao"]).optional(),
         mensagem: z.string().optional(),
-        filtros: z.string().optional(),
-        status: z.enum(["rascunho", "agendada", "enviada", "cancelada"]).optional(),
+        filtros: filtrosCampanhaInput.optional(),
         dataAgendamento: z.date().optional(),
-        dataEnvio: z.date().optional(),
-        totalClientes: z.number().optional(),
-        totalEnviadas: z.number().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const { id, ...data } = input;
-        return await db.updateCampanha(id, data);
+        const campanha = await db.getCampanhaById(id);
+        if (!campanha) {
+          throw new Error("Campanha não encontrada");
+        }
+        
+        // Status, data de envio e contadores são do disparo e da fila; depois
+        // do disparo só o nome muda
+        const emEdicao = campanha.status === "rascunho" || campanha.status === "agendada";
+        const alteraConteudo = [data.tipo, data.mensagem, data.filtros, data.dataAgendamento].some(valor => valor !== undefined);
+        if (!emEdicao && alteraConteudo) {
+          throw new Error("Campanha já enviada ou cancelada: só o nome pode ser alterado");
+        }
+        if (data.mensagem) {
+          validarModelo(data.mensagem);
+        }
+        
+        return await auditarAlteracao(ctx, "campanhas", id, "update", () => db.updateCampanha(id, {
+          ...data,
+          // Como na criação, a data de agendamento põe a campanha na vez do agendador
+          ...(data.dataAgendamento ? { status: "agendada" as const } : {}),
+        }));
+      }),
+
+    cancelar: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "campanhas", input.id, "update", async () => {
+          const cancelada = await db.cancelarCampanha(input.id);
+          if (!cancelada) {
+            throw new Error("Campanha não encontrada, já enviada ou cancelada");
+          }
+          return { success: true };
+        }, "Cancelamento da campanha");
+      }),
+
+    previewAudiencia: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({
+        campanhaId: z.number().optional(),
+        filtros: filtrosCampanhaSchema.optional(),
+      }))
+      .query(async ({ input }) => {
+        let filtros = input.filtros ?? {};
+        if (input.campanhaId) {
+          const campanha = await db.getCampanhaById(input.campanhaId);
+          if (!campanha) {
+            throw new Error("Campanha não encontrada");
+          }
+          filtros = parseFiltrosCampanha(campanha.filtros);
+        }
+
+        const clientes = await resolverAudiencia(filtros);
+        return { total: clientes.length, clientes };
+      }),
+
+    disparar: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await auditarAlteracao(ctx, "campanhas", input.id, "update",
+          () => dispararCampanha(input.id, ctx.user?.id),
+          "Disparo da campanha");
+      }),
+
+    mensagens: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getMensagensCampanha(input.id);
+      }),
+
+    progresso: procedimentoComPermissao("mensagens.gerenciar")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getProgressoCampanha(input.id);
       }),
   }),
 
   // ============ CONFIG WHATSAPP ============
   whatsapp: router({
-    getStatus: publicProcedure.query(() => {
-      return getWhatsAppStatus();
+    // O QR code conecta qualquer celular à conta do depósito
+    getStatus: procedimentoComPermissao("sistema.configurar").query(async () => {
+      return await getStatusWhatsApp();
     }),
-    disconnect: protectedProcedure.mutation(async () => {
-      await disconnectWhatsApp();
+    disconnect: procedimentoComPermissao("sistema.configurar").mutation(async () => {
+      await desconectarWhatsApp();
       return { success: true };
     }),
-    getConfig: publicProcedure.query(async () => {
+    getConfig: procedimentoComPermissao("sistema.configurar").query(async () => {
       return await db.getConfigWhatsapp();
     }),
 
 
-    updateConfig: protectedProcedure
+    updateConfig: procedimentoComPermissao("sistema.configurar")
       .input(z.object({
         accountSid: z.string().optional(),
         authToken: z.string().optional(),
         numeroWhatsapp: z.string().optional(),
         ativo: z.boolean().optional(),
+        provedor: z.enum(["baileys", "zapi", "fake"]).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { provedor, ...config } = input;
+        
+        const antes = await db.getConfigWhatsapp();
+        const provedorAntes = await db.getConfigProvedorWhatsapp();
+        const result = await db.upsertConfigWhatsapp(config);
+        if (provedor) {
+          await db.definirProvedorWhatsapp(provedor);
+        }
+        
+        const depois = await db.getConfigWhatsapp();
+        await registrarAuditoria(ctx, {
+          entidade: "configWhatsapp",
+          entidadeId: depois?.id,
+          acao: antes ? "update" : "create",
+          antes: antes && { ...antes, provedor: provedorAntes?.provedor ?? null },
+          depois: depois && { ...depois, provedor: provedor ?? provedorAntes?.provedor ?? null },
+        });
+        await iniciarWhatsApp();
+        
+        return result;
+      }),
+
+    // Provedor em memória para testes sem celular
+    fake: router({
+      mensagens: procedimentoComPermissao("sistema.configurar")
+        .input(z.object({ telefone: z.string().optional() }).optional())
+        .query(({ input }) => {
+          return getMensagensFake(input?.telefone);
+        }),
+
+      simularRecebida: procedimentoComPermissao("sistema.configurar")
+        .input(z.object({
+          telefone: z.string().min(8),
+          conteudo: z.string().min(1),
+          nomeContato: z.string().optional(),
+        }))
+        .mutation(async ({ input }) => {
+          return await simularMensagemRecebidaFake(input);
+        }),
+
+      simularStatus: procedimentoComPermissao("sistema.configurar")
+        .input(z.object({
+          messageId: z.string(),
+          status: z.enum(["entregue", "lida"]),
+        }))
+        .mutation(async ({ input }) => {
+          await simularStatusFake(input.messageId, input.status);
+          return { success: true };
+        }),
+
+      limpar: procedimentoComPermissao("sistema.configurar").mutation(() => {
+        limparMensagensFake();
+        return { success: true };
+      }),
+    }),
+  }),
+
+  // ============ ASSISTENTE DE PEDIDOS ============
+  assistente: router({
+    config: procedimentoComPermissao("mensagens.gerenciar").query(async () => {
+      return await db.getConfigAssistente();
+    }),
+
+    configurar: procedimentoComPermissao("sistema.configurar")
+      .input(z.object({
+        ativo: z.boolean().optional(),
+        instrucoes: z.string().nullable().optional(),
+        pausaAposAtendimentoMinutos: z.number().int().min(0).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.upsertConfigAssistente(input);
+      }),
+
+    // Conversa de teste sem WhatsApp; os pedidos não são gravados
+    simular: procedimentoComPermissao("sistema.configurar")
+      .input(z.object({
+        clienteId: z.number(),
+        mensagens: z.array(z.object({
+          direcao: z.enum(["entrada", "saida"]),
+          conteudo: z.string().min(1),
+        })).min(1),
       }))
       .mutation(async ({ input }) => {
-        return await db.upsertConfigWhatsapp(input);
+        const cliente = await db.getClienteById(input.clienteId);
+        if (!cliente) {
+          throw new Error("Cliente não encontrado");
+        }
+        
+        return await executarAssistente({
+          clienteId: input.clienteId,
+          simulacao: true,
+          historico: input.mensagens.map(m => ({
+            role: m.direcao === "entrada" ? "user" as const : "assistant" as const,
+            content: m.conteudo,
+          })),
+        });
       }),
   }),
 
-  // ============ RELATÓRIOS ============
-  relatorios: router({
-    dashboard: protectedProcedure
+  // ============ LEMBRETES DE RECOMPRA ============
+  recompra: router({
+    config: procedimentoComPermissao("mensagens.gerenciar").query(async () => {
+      return await carregarConfigLembreteRecompra();
+    }),
+
+    configurar: procedimentoComPermissao("sistema.configurar")
+      .input(configLembreteRecompraSchema)
+      .mutation(async ({ input }) => {
+        return await salvarConfigLembreteRecompra(input);
+      }),
+
+    previsoes: procedimentoComPermissao("mensagens.gerenciar").query(async () => {
+      return await getPrevisoesRecompra(await carregarConfigLembreteRecompra());
+    }),
+
+    enviarLembretes: procedimentoComPermissao("sistema.configurar").mutation(async ({ ctx }) => {
+      return await enviarLembretesRecompra(await carregarConfigLembreteRecompra(), ctx.user?.id);
+    }),
+  }),
+
+  // ============ TAREFAS AGENDADAS ============
+  tarefas: router({
+    list: procedimentoComPermissao("sistema.configurar")
       .input(z.object({
-        dataInicio: z.date().optional(),
-        dataFim: z.date().optional(),
+        tipo: z.string().optional(),
+        status: z.enum(["pendente", "executando", "concluida", "erro", "cancelada"]).optional(),
       }).optional())
+      .query(async ({ input }) => {
+        return await db.getTarefasAgendadas(input);
+      }),
+
+    tipos: procedimentoComPermissao("sistema.configurar").query(() => {
+      return getTiposTarefa();
+    }),
+
+    agendar: procedimentoComPermissao("sistema.configurar")
+      .input(z.object({
+        tipo: z.string().min(1),
+        executarEm: z.date(),
+        payload: z.record(z.string(), z.unknown()).optional(),
+        intervaloMinutos: z.number().int().min(1).optional(),
+        chave: z.string().min(1).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        if (input.intervaloMinutos) {
+          if (!getTiposTarefa().includes(input.tipo)) {
+            throw new Error(`Tipo de tarefa desconhecido: ${input.tipo}`);
+          }
+          return await garantirTarefaRecorrente({
+            chave: input.chave ?? input.tipo,
+            tipo: input.tipo,
+            intervaloMinutos: input.intervaloMinutos,
+            primeiraExecucao: input.executarEm,
+            payload: input.payload,
+          });
+        }
+        return await agendarTarefa(input);
+      }),
+
+    cancelar: procedimentoComPermissao("sistema.configurar")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.cancelarTarefaAgendada(input.id);
+      }),
+  }),
+
+  // ============ RELATÓRIOS ============
+  relatorios: router({
+    dashboard: procedimentoComPermissao("financeiro.gerenciar")
+      .input(periodoRelatorioInput)
       .query(async ({ input }) => {
         const vendas = await db.getVendas(input);
-        const estoque = await db.getEstoque();
+        const estoque = input?.depositoId ? await db.getEstoqueDepositos(input.depositoId) : await db.getEstoque();
         const despesas = await db.getDespesas(input);
         
         const totalVendas = vendas.reduce((sum, v) => sum + v.total, 0);
@@ -479,11 +1975,8 @@ export const appRouter = router({
         };
       }),
 
-    vendasPorVendedor: protectedProcedure
-      .input(z.object({
-        dataInicio: z.date().optional(),
-        dataFim: z.date().optional(),
-      }).optional())
+    vendasPorVendedor: procedimentoComPermissao("financeiro.gerenciar")
+      .input(periodoRelatorioInput)
       .query(async ({ input }) => {
         const vendas = await db.getVendas(input);
         
@@ -507,11 +2000,8 @@ export const appRouter = router({
         return Object.values(porVendedor);
       }),
 
-    vendasPorRegiao: protectedProcedure
-      .input(z.object({
-        dataInicio: z.date().optional(),
-        dataFim: z.date().optional(),
-      }).optional())
+    vendasPorRegiao: procedimentoComPermissao("financeiro.gerenciar")
+      .input(periodoRelatorioInput)
       .query(async ({ input }) => {
         const vendas = await db.getVendas(input);
         const clientesMap = new Map();
@@ -545,11 +2035,20 @@ export const appRouter = router({
         return Object.values(porRegiao);
       }),
 
-    vendasPorFormaPagamento: protectedProcedure
-      .input(z.object({
-        dataInicio: z.date().optional(),
-        dataFim: z.date().optional(),
-      }).optional())
+    contasReceberAging: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ clienteId: z.number().optional() }).optional())
+      .query(async ({ input }) => {
+        return await getAgingContasReceber(input?.clienteId);
+      }),
+
+    vasilhamesEmprestados: procedimentoComPermissao("financeiro.gerenciar")
+      .input(z.object({ clienteId: z.number().optional() }).optional())
+      .query(async ({ input }) => {
+        return await db.getVasilhamesEmprestados(input?.clienteId);
+      }),
+
+    vendasPorFormaPagamento: procedimentoComPermissao("financeiro.gerenciar")
+      .input(periodoRelatorioInput)
       .query(async ({ input }) => {
         const vendas = await db.getVendas(input);
         
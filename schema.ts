@@ -0,0 +1,609 @@
+import { boolean, double, index, int, json, mysqlEnum, mysqlTable, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/mysql-core";
+import type { ReferenciaMidiaWhatsApp } from "./whatsappEventos";
+
+/**
+ * Tabelas do backend que complementam o schema principal (../drizzle/schema).
+ * Cada tabela referencia as existentes pelo id, sem alterar as originais.
+ */
+
+// ============ CANCELAMENTOS DE VENDA ============
+export const cancelamentosVenda = mysqlTable("cancelamentosVenda", {
+  id: int("id").autoincrement().primaryKey(),
+  vendaId: int("vendaId").notNull().unique(),
+  motivo: text("motivo").notNull(),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type CancelamentoVenda = typeof cancelamentosVenda.$inferSelect;
+export type InsertCancelamentoVenda = typeof cancelamentosVenda.$inferInsert;
+
+// ============ DESCONTOS DE VENDA ============
+// produtoId nulo indica desconto sobre o pedido inteiro
+export const descontosVenda = mysqlTable("descontosVenda", {
+  id: int("id").autoincrement().primaryKey(),
+  vendaId: int("vendaId").notNull(),
+  produtoId: int("produtoId"),
+  tipo: mysqlEnum("tipo", ["percentual", "valor"]).notNull(),
+  percentual: double("percentual").notNull(),
+  valor: double("valor").notNull(),
+  motivo: text("motivo").notNull(),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type DescontoVenda = typeof descontosVenda.$inferSelect;
+export type InsertDescontoVenda = typeof descontosVenda.$inferInsert;
+
+// ============ CATEGORIAS DE CLIENTE ============
+export const categoriasCliente = mysqlTable("categoriasCliente", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull().unique(),
+  categoria: mysqlEnum("categoria", ["residencial", "comercial", "revendedor", "condominio"]).notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type CategoriaCliente = typeof categoriasCliente.$inferSelect;
+export type InsertCategoriaCliente = typeof categoriasCliente.$inferInsert;
+
+// ============ TABELAS DE PREÇO ============
+// escopo define a qual campo a tabela se aplica: regiao, clienteId ou categoria
+export const tabelasPreco = mysqlTable("tabelasPreco", {
+  id: int("id").autoincrement().primaryKey(),
+  nome: varchar("nome", { length: 255 }).notNull(),
+  escopo: mysqlEnum("escopo", ["regiao", "cliente", "categoria"]).notNull(),
+  regiao: varchar("regiao", { length: 100 }),
+  clienteId: int("clienteId"),
+  categoria: mysqlEnum("categoria", ["residencial", "comercial", "revendedor", "condominio"]),
+  prioridade: int("prioridade").default(0).notNull(),
+  validoDe: timestamp("validoDe"),
+  validoAte: timestamp("validoAte"),
+  ativo: boolean("ativo").default(true).notNull(),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type TabelaPreco = typeof tabelasPreco.$inferSelect;
+export type InsertTabelaPreco = typeof tabelasPreco.$inferInsert;
+
+export const itensTabelaPreco = mysqlTable("itensTabelaPreco", {
+  id: int("id").autoincrement().primaryKey(),
+  tabelaPrecoId: int("tabelaPrecoId").notNull(),
+  produtoId: int("produtoId").notNull(),
+  preco: double("preco").notNull(),
+}, (table) => [
+  uniqueIndex("itensTabelaPreco_tabela_produto_idx").on(table.tabelaPrecoId, table.produtoId),
+]);
+
+export type ItemTabelaPreco = typeof itensTabelaPreco.$inferSelect;
+export type InsertItemTabelaPreco = typeof itensTabelaPreco.$inferInsert;
+
+// ============ VASILHAMES (CASCOS) ============
+// Estoque de vasilhames vazios; o estoque principal conta os cheios
+export const estoqueVasilhames = mysqlTable("estoqueVasilhames", {
+  id: int("id").autoincrement().primaryKey(),
+  produtoId: int("produtoId").notNull().unique(),
+  quantidade: int("quantidade").default(0).notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type EstoqueVasilhame = typeof estoqueVasilhames.$inferSelect;
+export type InsertEstoqueVasilhame = typeof estoqueVasilhames.$inferInsert;
+
+// Cada linha registra quanto variou o estoque de vazios e o saldo emprestado ao cliente
+export const movimentacoesVasilhames = mysqlTable("movimentacoesVasilhames", {
+  id: int("id").autoincrement().primaryKey(),
+  produtoId: int("produtoId").notNull(),
+  clienteId: int("clienteId"),
+  vendaId: int("vendaId"),
+  tipo: mysqlEnum("tipo", ["troca", "venda_casco", "emprestimo", "devolucao_emprestimo", "entrada", "saida", "estorno"]).notNull(),
+  quantidade: int("quantidade").notNull(),
+  variacaoEstoque: int("variacaoEstoque").notNull(),
+  variacaoEmprestimo: int("variacaoEmprestimo").default(0).notNull(),
+  quantidadeAtual: int("quantidadeAtual").notNull(),
+  observacao: text("observacao"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type MovimentacaoVasilhame = typeof movimentacoesVasilhames.$inferSelect;
+export type InsertMovimentacaoVasilhame = typeof movimentacoesVasilhames.$inferInsert;
+
+// ============ PEDIDOS DE ENTREGA ============
+// O pedido vira venda na entrega; até lá não mexe no estoque
+export const pedidos = mysqlTable("pedidos", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull(),
+  vendedorId: int("vendedorId"),
+  // rascunho: criado pelo assistente do WhatsApp, aguardando aprovação do operador
+  status: mysqlEnum("status", ["rascunho", "recebido", "em_rota", "entregue", "cancelado"]).default("recebido").notNull(),
+  origem: mysqlEnum("origem", ["telefone", "whatsapp", "balcao", "outros"]).default("telefone").notNull(),
+  endereco: text("endereco"),
+  bairro: varchar("bairro", { length: 100 }),
+  regiao: varchar("regiao", { length: 100 }),
+  horarioDesejado: timestamp("horarioDesejado"),
+  formaPagamento: mysqlEnum("formaPagamento", ["dinheiro", "cartao_credito", "cartao_debito", "pix", "outros", "fiado"]),
+  observacoes: text("observacoes"),
+  vendaId: int("vendaId"),
+  motivoCancelamento: text("motivoCancelamento"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+  saiuParaEntregaEm: timestamp("saiuParaEntregaEm"),
+  entregueEm: timestamp("entregueEm"),
+  canceladoEm: timestamp("canceladoEm"),
+});
+
+export type Pedido = typeof pedidos.$inferSelect;
+export type InsertPedido = typeof pedidos.$inferInsert;
+
+export const itensPedido = mysqlTable("itensPedido", {
+  id: int("id").autoincrement().primaryKey(),
+  pedidoId: int("pedidoId").notNull(),
+  produtoId: int("produtoId").notNull(),
+  quantidade: int("quantidade").notNull(),
+});
+
+export type ItemPedido = typeof itensPedido.$inferSelect;
+export type InsertItemPedido = typeof itensPedido.$inferInsert;
+
+// ============ CONTAS A RECEBER (FIADO) ============
+// Vendas a prazo ficam com formaPagamento "outros" na venda; a conta marca o fiado
+export const contasReceber = mysqlTable("contasReceber", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull(),
+  vendaId: int("vendaId").unique(),
+  descricao: varchar("descricao", { length: 255 }),
+  valor: double("valor").notNull(),
+  valorPago: double("valorPago").default(0).notNull(),
+  vencimento: timestamp("vencimento").notNull(),
+  status: mysqlEnum("status", ["aberta", "paga", "cancelada"]).default("aberta").notNull(),
+  ultimoLembreteEm: timestamp("ultimoLembreteEm"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+  quitadaEm: timestamp("quitadaEm"),
+});
+
+export type ContaReceber = typeof contasReceber.$inferSelect;
+export type InsertContaReceber = typeof contasReceber.$inferInsert;
+
+export const pagamentosContaReceber = mysqlTable("pagamentosContaReceber", {
+  id: int("id").autoincrement().primaryKey(),
+  contaReceberId: int("contaReceberId").notNull(),
+  valor: double("valor").notNull(),
+  formaPagamento: mysqlEnum("formaPagamento", ["dinheiro", "cartao_credito", "cartao_debito", "pix", "outros"]).notNull(),
+  observacao: text("observacao"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type PagamentoContaReceber = typeof pagamentosContaReceber.$inferSelect;
+export type InsertPagamentoContaReceber = typeof pagamentosContaReceber.$inferInsert;
+
+// ============ CAIXA ============
+// Ao fechar, os totais ficam gravados em resumo e o caixa não aceita mais alterações
+export const caixas = mysqlTable("caixas", {
+  id: int("id").autoincrement().primaryKey(),
+  vendedorId: int("vendedorId").notNull(),
+  status: mysqlEnum("status", ["aberto", "fechado"]).default("aberto").notNull(),
+  valorAbertura: double("valorAbertura").notNull(),
+  valorEsperado: double("valorEsperado"),
+  valorContado: double("valorContado"),
+  diferenca: double("diferenca"),
+  resumo: json("resumo"),
+  observacoes: text("observacoes"),
+  usuarioAberturaId: varchar("usuarioAberturaId", { length: 64 }),
+  usuarioFechamentoId: varchar("usuarioFechamentoId", { length: 64 }),
+  abertoEm: timestamp("abertoEm").defaultNow().notNull(),
+  fechadoEm: timestamp("fechadoEm"),
+});
+
+export type Caixa = typeof caixas.$inferSelect;
+export type InsertCaixa = typeof caixas.$inferInsert;
+
+export const movimentacoesCaixa = mysqlTable("movimentacoesCaixa", {
+  id: int("id").autoincrement().primaryKey(),
+  caixaId: int("caixaId").notNull(),
+  tipo: mysqlEnum("tipo", ["sangria", "suprimento"]).notNull(),
+  valor: double("valor").notNull(),
+  observacao: text("observacao"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type MovimentacaoCaixa = typeof movimentacoesCaixa.$inferSelect;
+export type InsertMovimentacaoCaixa = typeof movimentacoesCaixa.$inferInsert;
+
+// ============ COMISSÕES ============
+// Regra sem vendedor vale para todos; sem produtoTipo vale para todos os produtos
+export const regrasComissao = mysqlTable("regrasComissao", {
+  id: int("id").autoincrement().primaryKey(),
+  vendedorId: int("vendedorId"),
+  produtoTipo: mysqlEnum("produtoTipo", ["gas_p13", "agua_mineral", "agua_dessalinizada"]),
+  base: mysqlEnum("base", ["venda", "lucro"]).default("venda").notNull(),
+  percentual: double("percentual").notNull(),
+  ativo: boolean("ativo").default(true).notNull(),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type RegraComissao = typeof regrasComissao.$inferSelect;
+export type InsertRegraComissao = typeof regrasComissao.$inferInsert;
+
+// Extrato fechado de um período; detalhes guarda o cálculo completo para auditoria
+export const extratosComissao = mysqlTable("extratosComissao", {
+  id: int("id").autoincrement().primaryKey(),
+  vendedorId: int("vendedorId").notNull(),
+  periodoInicio: timestamp("periodoInicio").notNull(),
+  periodoFim: timestamp("periodoFim").notNull(),
+  totalVendas: double("totalVendas").notNull(),
+  valorComissao: double("valorComissao").notNull(),
+  totalAdiantamentos: double("totalAdiantamentos").notNull(),
+  valorLiquido: double("valorLiquido").notNull(),
+  detalhes: json("detalhes"),
+  status: mysqlEnum("status", ["fechado", "pago"]).default("fechado").notNull(),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+  pagoEm: timestamp("pagoEm"),
+  usuarioPagamentoId: varchar("usuarioPagamentoId", { length: 64 }),
+});
+
+export type ExtratoComissao = typeof extratosComissao.$inferSelect;
+export type InsertExtratoComissao = typeof extratosComissao.$inferInsert;
+
+// ============ DESTINATÁRIOS DE CAMPANHA ============
+// Liga cada mensagem enviada à campanha que a originou
+export const mensagensCampanha = mysqlTable("mensagensCampanha", {
+  id: int("id").autoincrement().primaryKey(),
+  campanhaId: int("campanhaId").notNull(),
+  clienteId: int("clienteId").notNull(),
+  mensagemId: int("mensagemId").notNull(),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("mensagensCampanha_campanha_cliente_idx").on(table.campanhaId, table.clienteId),
+]);
+
+export type MensagemCampanha = typeof mensagensCampanha.$inferSelect;
+export type InsertMensagemCampanha = typeof mensagensCampanha.$inferInsert;
+
+// ============ TAREFAS AGENDADAS ============
+// Fila de tarefas do agendador; bloqueadoPor/bloqueadoAte garantem uma única execução entre instâncias
+export const tarefasAgendadas = mysqlTable("tarefasAgendadas", {
+  id: int("id").autoincrement().primaryKey(),
+  tipo: varchar("tipo", { length: 100 }).notNull(),
+  chave: varchar("chave", { length: 191 }).unique(),
+  payload: json("payload"),
+  executarEm: timestamp("executarEm").notNull(),
+  intervaloMinutos: int("intervaloMinutos"),
+  status: mysqlEnum("status", ["pendente", "executando", "concluida", "erro", "cancelada"]).default("pendente").notNull(),
+  tentativas: int("tentativas").default(0).notNull(),
+  maxTentativas: int("maxTentativas").default(3).notNull(),
+  ultimoErro: text("ultimoErro"),
+  bloqueadoPor: varchar("bloqueadoPor", { length: 191 }),
+  bloqueadoAte: timestamp("bloqueadoAte"),
+  ultimaExecucaoEm: timestamp("ultimaExecucaoEm"),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type TarefaAgendada = typeof tarefasAgendadas.$inferSelect;
+export type InsertTarefaAgendada = typeof tarefasAgendadas.$inferInsert;
+
+// ============ LEMBRETES DE RECOMPRA ============
+// Um lembrete por cliente e ciclo: ultimaCompraEm identifica o ciclo já lembrado
+export const lembretesRecompra = mysqlTable("lembretesRecompra", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull(),
+  ultimaCompraEm: timestamp("ultimaCompraEm").notNull(),
+  previsaoEm: timestamp("previsaoEm").notNull(),
+  cicloDias: int("cicloDias").notNull(),
+  mensagemId: int("mensagemId"),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("lembretesRecompra_cliente_compra_idx").on(table.clienteId, table.ultimaCompraEm),
+]);
+
+export type LembreteRecompra = typeof lembretesRecompra.$inferSelect;
+export type InsertLembreteRecompra = typeof lembretesRecompra.$inferInsert;
+
+// ============ MENSAGENS RECEBIDAS ============
+// Mensagens que chegam pelo WhatsApp; as enviadas ficam em mensagens
+export const mensagensRecebidas = mysqlTable("mensagensRecebidas", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull(),
+  telefone: varchar("telefone", { length: 30 }).notNull(),
+  nomeContato: varchar("nomeContato", { length: 255 }),
+  provedorMensagemId: varchar("provedorMensagemId", { length: 128 }),
+  tipo: mysqlEnum("tipo", ["texto", "audio", "imagem", "outro"]).default("texto").notNull(),
+  // Em áudios, a transcrição
+  conteudo: text("conteudo").notNull(),
+  midiaChave: varchar("midiaChave", { length: 255 }),
+  midiaUrl: text("midiaUrl"),
+  midiaTipo: varchar("midiaTipo", { length: 100 }),
+  // Para baixar o áudio de novo no reprocessamento, se ele não chegou ao storage
+  midiaReferencia: json("midiaReferencia").$type<ReferenciaMidiaWhatsApp>(),
+  statusMidia: mysqlEnum("statusMidia", ["pendente", "transcrita", "erro"]),
+  erroMidia: text("erroMidia"),
+  // Rascunho de pedido gerado a partir do áudio
+  pedidoId: int("pedidoId"),
+  lida: boolean("lida").default(false).notNull(),
+  recebidaEm: timestamp("recebidaEm").notNull(),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("mensagensRecebidas_provedor_idx").on(table.provedorMensagemId),
+]);
+
+export type MensagemRecebida = typeof mensagensRecebidas.$inferSelect;
+export type InsertMensagemRecebida = typeof mensagensRecebidas.$inferInsert;
+
+// ============ ASSISTENTE DE PEDIDOS ============
+// Configuração única do assistente que atende pedidos pelo WhatsApp
+export const configAssistente = mysqlTable("configAssistente", {
+  id: int("id").autoincrement().primaryKey(),
+  ativo: boolean("ativo").default(false).notNull(),
+  instrucoes: text("instrucoes"),
+  // Depois de uma mensagem manual do operador o assistente fica em silêncio
+  pausaAposAtendimentoMinutos: int("pausaAposAtendimentoMinutos").default(30).notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ConfigAssistente = typeof configAssistente.$inferSelect;
+export type InsertConfigAssistente = typeof configAssistente.$inferInsert;
+
+// ============ ENVIOS DE MENSAGEM ============
+// Id da mensagem no provedor e horários de cada confirmação de entrega
+export const enviosMensagem = mysqlTable("enviosMensagem", {
+  id: int("id").autoincrement().primaryKey(),
+  mensagemId: int("mensagemId").notNull(),
+  provedorMensagemId: varchar("provedorMensagemId", { length: 128 }).notNull(),
+  enviadaEm: timestamp("enviadaEm").notNull(),
+  entregueEm: timestamp("entregueEm"),
+  lidaEm: timestamp("lidaEm"),
+}, (table) => [
+  uniqueIndex("enviosMensagem_mensagem_idx").on(table.mensagemId),
+  uniqueIndex("enviosMensagem_provedor_idx").on(table.provedorMensagemId),
+]);
+
+export type EnvioMensagem = typeof enviosMensagem.$inferSelect;
+export type InsertEnvioMensagem = typeof enviosMensagem.$inferInsert;
+
+// ============ PROVEDOR WHATSAPP ============
+// Complementa configWhatsapp com o provedor usado para enviar e receber
+export const configProvedorWhatsapp = mysqlTable("configProvedorWhatsapp", {
+  id: int("id").autoincrement().primaryKey(),
+  provedor: mysqlEnum("provedor", ["baileys", "zapi", "fake"]).default("baileys").notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ConfigProvedorWhatsapp = typeof configProvedorWhatsapp.$inferSelect;
+
+// ============ FILA DE MENSAGENS ============
+// Estado de entrega das mensagens enviadas; mensagens.status continua sendo a
+// situação exibida (pendente até enviar, erro quando as tentativas acabam)
+export const filaMensagens = mysqlTable("filaMensagens", {
+  id: int("id").autoincrement().primaryKey(),
+  mensagemId: int("mensagemId").notNull(),
+  tentativas: int("tentativas").default(0).notNull(),
+  maxTentativas: int("maxTentativas").default(5).notNull(),
+  // Mensagens de marketing só são entregues a quem consentiu
+  marketing: boolean("marketing").default(false).notNull(),
+  proximaTentativaEm: timestamp("proximaTentativaEm").notNull(),
+  ultimoErro: text("ultimoErro"),
+  bloqueadoPor: varchar("bloqueadoPor", { length: 128 }),
+  bloqueadoAte: timestamp("bloqueadoAte"),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("filaMensagens_mensagem_idx").on(table.mensagemId),
+]);
+
+export type MensagemFila = typeof filaMensagens.$inferSelect;
+
+// ============ CONSENTIMENTO (LGPD) ============
+const origensConsentimento = ["whatsapp", "cadastro", "balcao", "telefone", "outro"] as const;
+
+// Situação atual do consentimento de marketing; sem linha, o cliente não consentiu e não recebe marketing
+export const consentimentosMarketing = mysqlTable("consentimentosMarketing", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull().unique(),
+  consentido: boolean("consentido").notNull(),
+  origem: mysqlEnum("origem", origensConsentimento).notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ConsentimentoMarketing = typeof consentimentosMarketing.$inferSelect;
+
+// Toda mudança de consentimento, com origem e evidência, para prestação de contas
+export const historicoConsentimento = mysqlTable("historicoConsentimento", {
+  id: int("id").autoincrement().primaryKey(),
+  clienteId: int("clienteId").notNull(),
+  consentido: boolean("consentido").notNull(),
+  origem: mysqlEnum("origem", origensConsentimento).notNull(),
+  detalhe: text("detalhe"),
+  mensagemRecebidaId: int("mensagemRecebidaId"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type HistoricoConsentimento = typeof historicoConsentimento.$inferSelect;
+export type InsertHistoricoConsentimento = typeof historicoConsentimento.$inferInsert;
+
+// ============ MODELOS DE MENSAGEM ============
+// Textos reutilizáveis com placeholders ({nome}, {preco:gas_p13}...) preenchidos por destinatário
+export const modelosMensagem = mysqlTable("modelosMensagem", {
+  id: int("id").autoincrement().primaryKey(),
+  nome: varchar("nome", { length: 255 }).notNull(),
+  tipo: mysqlEnum("tipo", ["automatica", "promocao", "data_especial", "manual"]).notNull(),
+  conteudo: text("conteudo").notNull(),
+  ativo: boolean("ativo").default(true).notNull(),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ModeloMensagem = typeof modelosMensagem.$inferSelect;
+export type InsertModeloMensagem = typeof modelosMensagem.$inferInsert;
+
+// ============ PERFIS DE USUÁRIO ============
+// Perfil de acesso de cada usuário; users.role = admin continua sempre administrador
+export const perfisUsuario = mysqlTable("perfisUsuario", {
+  id: int("id").autoincrement().primaryKey(),
+  usuarioId: varchar("usuarioId", { length: 64 }).notNull().unique(),
+  perfil: mysqlEnum("perfil", ["admin", "gerente", "vendedor"]).notNull(),
+  // Vendedor (ou entregador) que o usuário representa nas vendas e despesas
+  vendedorId: int("vendedorId"),
+  atualizadoPor: varchar("atualizadoPor", { length: 64 }),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PerfilUsuario = typeof perfisUsuario.$inferSelect;
+export type InsertPerfilUsuario = typeof perfisUsuario.$inferInsert;
+
+// ============ AUDITORIA ============
+// Quem alterou o quê: estado antes e depois de cada mutação de negócio
+export const registrosAuditoria = mysqlTable("registrosAuditoria", {
+  id: int("id").autoincrement().primaryKey(),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  usuarioNome: text("usuarioNome"),
+  entidade: varchar("entidade", { length: 50 }).notNull(),
+  entidadeId: int("entidadeId"),
+  acao: mysqlEnum("acao", ["create", "update", "delete"]).notNull(),
+  descricao: text("descricao"),
+  antes: json("antes"),
+  depois: json("depois"),
+  // Só os campos que mudaram: { campo: { antes, depois } }
+  alteracoes: json("alteracoes"),
+  ip: varchar("ip", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+}, (table) => [
+  index("registrosAuditoria_entidade_idx").on(table.entidade, table.entidadeId),
+  index("registrosAuditoria_criadoEm_idx").on(table.criadoEm),
+]);
+
+export type RegistroAuditoria = typeof registrosAuditoria.$inferSelect;
+export type InsertRegistroAuditoria = typeof registrosAuditoria.$inferInsert;
+
+// ============ DEPÓSITOS (FILIAIS) ============
+// O estoque global (../drizzle/schema) continua sendo o consolidado de todos os depósitos
+export const depositos = mysqlTable("depositos", {
+  id: int("id").autoincrement().primaryKey(),
+  nome: varchar("nome", { length: 255 }).notNull(),
+  endereco: text("endereco"),
+  // Recebe as movimentações sem depósito informado e os registros anteriores às filiais
+  padrao: boolean("padrao").default(false).notNull(),
+  ativo: boolean("ativo").default(true).notNull(),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type Deposito = typeof depositos.$inferSelect;
+export type InsertDeposito = typeof depositos.$inferInsert;
+
+export const estoqueDepositos = mysqlTable("estoqueDepositos", {
+  id: int("id").autoincrement().primaryKey(),
+  depositoId: int("depositoId").notNull(),
+  produtoId: int("produtoId").notNull(),
+  quantidade: int("quantidade").default(0).notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("estoqueDepositos_deposito_produto_idx").on(table.depositoId, table.produtoId),
+]);
+
+export const transferenciasEstoque = mysqlTable("transferenciasEstoque", {
+  id: int("id").autoincrement().primaryKey(),
+  origemId: int("origemId").notNull(),
+  destinoId: int("destinoId").notNull(),
+  observacao: text("observacao"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export const itensTransferenciaEstoque = mysqlTable("itensTransferenciaEstoque", {
+  id: int("id").autoincrement().primaryKey(),
+  transferenciaId: int("transferenciaId").notNull(),
+  produtoId: int("produtoId").notNull(),
+  quantidade: int("quantidade").notNull(),
+});
+
+// Razão de estoque por depósito; transferências não passam pelo razão global
+export const movimentacoesDeposito = mysqlTable("movimentacoesDeposito", {
+  id: int("id").autoincrement().primaryKey(),
+  depositoId: int("depositoId").notNull(),
+  produtoId: int("produtoId").notNull(),
+  tipo: mysqlEnum("tipo", ["entrada", "saida"]).notNull(),
+  quantidade: int("quantidade").notNull(),
+  quantidadeAtual: int("quantidadeAtual").notNull(),
+  movimentacaoEstoqueId: int("movimentacaoEstoqueId"),
+  transferenciaId: int("transferenciaId"),
+  observacao: text("observacao"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export const depositosVendedor = mysqlTable("depositosVendedor", {
+  id: int("id").autoincrement().primaryKey(),
+  vendedorId: int("vendedorId").notNull().unique(),
+  depositoId: int("depositoId").notNull(),
+  atualizadoEm: timestamp("atualizadoEm").defaultNow().onUpdateNow().notNull(),
+});
+
+export const depositosVenda = mysqlTable("depositosVenda", {
+  id: int("id").autoincrement().primaryKey(),
+  vendaId: int("vendaId").notNull().unique(),
+  depositoId: int("depositoId").notNull(),
+});
+
+// ============ FORNECEDORES E COMPRAS ============
+export const fornecedores = mysqlTable("fornecedores", {
+  id: int("id").autoincrement().primaryKey(),
+  nome: varchar("nome", { length: 255 }).notNull(),
+  // CNPJ ou CPF, só dígitos
+  documento: varchar("documento", { length: 20 }).unique(),
+  telefone: varchar("telefone", { length: 20 }),
+  email: varchar("email", { length: 320 }),
+  observacoes: text("observacoes"),
+  ativo: boolean("ativo").default(true).notNull(),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+});
+
+export type Fornecedor = typeof fornecedores.$inferSelect;
+export type InsertFornecedor = typeof fornecedores.$inferInsert;
+
+// A compra é também a conta a pagar ao fornecedor. O pagamento fica aqui e
+// não em despesas: o custo da mercadoria já sai do lucro de cada venda
+export const compras = mysqlTable("compras", {
+  id: int("id").autoincrement().primaryKey(),
+  fornecedorId: int("fornecedorId").notNull(),
+  depositoId: int("depositoId").notNull(),
+  numeroNotaFiscal: varchar("numeroNotaFiscal", { length: 60 }).notNull(),
+  dataEmissao: timestamp("dataEmissao").notNull(),
+  valorProdutos: double("valorProdutos").notNull(),
+  frete: double("frete").default(0).notNull(),
+  valorTotal: double("valorTotal").notNull(),
+  vencimento: timestamp("vencimento").notNull(),
+  status: mysqlEnum("status", ["aberta", "paga", "cancelada"]).default("aberta").notNull(),
+  observacoes: text("observacoes"),
+  motivoCancelamento: text("motivoCancelamento"),
+  usuarioId: varchar("usuarioId", { length: 64 }),
+  criadoEm: timestamp("criadoEm").defaultNow().notNull(),
+  pagaEm: timestamp("pagaEm"),
+  canceladaEm: timestamp("canceladaEm"),
+}, (table) => [
+  // A mesma nota não entra duas vezes no estoque
+  uniqueIndex("compras_fornecedor_nota_idx").on(table.fornecedorId, table.numeroNotaFiscal),
+  index("compras_status_vencimento_idx").on(table.status, table.vencimento),
+]);
+
+export type Compra = typeof compras.$inferSelect;
+export type InsertCompra = typeof compras.$inferInsert;
+
+export const itensCompra = mysqlTable("itensCompra", {
+  id: int("id").autoincrement().primaryKey(),
+  compraId: int("compraId").notNull(),
+  produtoId: int("produtoId").notNull(),
+  quantidade: int("quantidade").notNull(),
+  custoUnitario: double("custoUnitario").notNull(),
+  // Parte do frete da nota que coube ao item, proporcional ao valor dele
+  freteRateado: double("freteRateado").default(0).notNull(),
+  // Custo unitário com frete, usado no lucro das vendas seguintes;
+  // produtos.precoCompra recebe só o valor arredondado
+  custoFinal: double("custoFinal").notNull(),
+});
+
+export type ItemCompra = typeof itensCompra.$inferSelect;
+export type InsertItemCompra = typeof itensCompra.$inferInsert;
@@ -0,0 +1,127 @@
+import { notifyOwner } from "./_core/notification";
+import { garantirTarefaRecorrente, iniciarAgendador, registrarTarefa } from "./agendador";
+import { dispararCampanha } from "./campanhas";
+import { enviarLembretesVencidos } from "./cobranca";
+import * as db from "./db";
+import { processarFila } from "./filaMensagens";
+import { CHAVE_TAREFA_RECOMPRA, enviarLembretesRecompra, getConfigLembreteRecompra } from "./recompra";
+
+// Horário local (America/Fortaleza, UTC-3) do relatório diário
+const HORA_RELATORIO_DIARIO = 21;
+const HORA_LEMBRETES_RECOMPRA = 9;
+const FUSO_HORARIO_HORAS = -3;
+
+function proximoHorarioLocal(hora: number, agora = new Date()) {
+  const proximo = new Date(agora);
+  proximo.setUTCHours(hora - FUSO_HORARIO_HORAS, 0, 0, 0);
+  if (proximo <= agora) {
+    proximo.setUTCDate(proximo.getUTCDate() + 1);
+  }
+  return proximo;
+}
+
+function formatarValor(valor: number) {
+  return valor.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+/**
+ * Dispara as campanhas agendadas cujo horário já chegou
+ */
+registrarTarefa("campanhas.agendadas", async () => {
+  const campanhas = await db.getCampanhasAgendadasVencidas(new Date());
+  for (const campanha of campanhas) {
+    try {
+      await dispararCampanha(campanha.id, campanha.usuarioId ?? undefined);
+    } catch (error) {
+      console.error(`[Tarefas] Erro ao disparar campanha agendada #${campanha.id}:`, error);
+    }
+  }
+});
+
+registrarTarefa("campanhas.disparar", async (payload: { campanhaId: number }) => {
+  await dispararCampanha(payload.campanhaId);
+});
+
+/**
+ * Envia as mensagens pendentes da fila e as que aguardam nova tentativa
+ */
+registrarTarefa("mensagens.fila", async () => {
+  await processarFila();
+});
+
+/**
+ * Resumo do dia enviado ao dono pela notificação da plataforma
+ */
+registrarTarefa("relatorios.diario", async () => {
+  const inicio = new Date(proximoHorarioLocal(0).getTime() - 24 * 60 * 60 * 1000);
+  const fim = new Date();
+  const vendas = await db.getVendas({ dataInicio: inicio, dataFim: fim });
+  const despesas = await db.getDespesas({ dataInicio: inicio, dataFim: fim });
+
+  const totalVendas = vendas.reduce((sum, v) => sum + v.total, 0);
+  const totalLucro = vendas.reduce((sum, v) => sum + v.lucro, 0);
+  const totalDespesas = despesas.reduce((sum, d) => sum + d.valor, 0);
+
+  await notifyOwner({
+    title: `Resumo do dia ${inicio.toLocaleDateString("pt-BR", { timeZone: "America/Fortaleza" })}`,
+    content: [
+      `Vendas: ${vendas.length} (${formatarValor(totalVendas)})`,
+      `Lucro bruto: ${formatarValor(totalLucro)}`,
+      `Despesas: ${formatarValor(totalDespesas)}`,
+      `Lucro líquido: ${formatarValor(totalLucro - totalDespesas)}`,
+    ].join("\n"),
+  });
+});
+
+registrarTarefa("cobranca.lembretes", async (payload?: { intervaloMinimoDias?: number }) => {
+  await enviarLembretesVencidos({ intervaloMinimoDias: payload?.intervaloMinimoDias ?? 3 });
+});
+
+/**
+ * Lembretes de recompra com a configuração gravada no payload da tarefa
+ */
+registrarTarefa(CHAVE_TAREFA_RECOMPRA, async (payload?: Record<string, unknown>) => {
+  const resultado = await enviarLembretesRecompra(getConfigLembreteRecompra(payload));
+  if (resultado.erros.length > 0) {
+    console.warn(`[Tarefas] Lembretes de recompra com ${resultado.erros.length} erro(s)`, resultado.erros);
+  }
+});
+
+/**
+ * Registra as tarefas recorrentes padrão e inicia o agendador
+ */
+export async function iniciarTarefas() {
+  try {
+    await garantirTarefaRecorrente({
+      chave: "campanhas.agendadas",
+      tipo: "campanhas.agendadas",
+      intervaloMinutos: 1,
+      primeiraExecucao: new Date(),
+    });
+
+    await garantirTarefaRecorrente({
+      chave: "mensagens.fila",
+      tipo: "mensagens.fila",
+      intervaloMinutos: 1,
+      primeiraExecucao: new Date(),
+    });
+
+    await garantirTarefaRecorrente({
+      chave: "relatorios.diario",
+      tipo: "relatorios.diario",
+      intervaloMinutos: 24 * 60,
+      primeiraExecucao: proximoHorarioLocal(HORA_RELATORIO_DIARIO),
+    });
+
+    await garantirTarefaRecorrente({
+      chave: CHAVE_TAREFA_RECOMPRA,
+      tipo: CHAVE_TAREFA_RECOMPRA,
+      intervaloMinutos: 24 * 60,
+      primeiraExecucao: proximoHorarioLocal(HORA_LEMBRETES_RECOMPRA),
+    });
+  } catch (error) {
+    console.warn("[Tarefas] Não foi possível registrar as tarefas recorrentes:", error);
+  }
+
+  iniciarAgendador();
+}
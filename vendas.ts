@@ -0,0 +1,89 @@
+import * as db from "./db";
+import { calcularVenda, DescontoSolicitado, ItemSolicitado } from "./precificacao";
+
+export type ItemVendaSolicitado = ItemSolicitado & {
+  // Destino dos cascos de P13; sem informar, considera troca de todos
+  vasilhame?: db.VasilhameItemVenda;
+};
+
+/**
+ * Apenas gás P13 movimenta cascos, e a soma deve bater com a quantidade vendida
+ */
+function resolverVasilhame(
+  item: { produtoNome: string; produtoTipo: string; quantidade: number },
+  vasilhame?: db.VasilhameItemVenda
+) {
+  if (item.produtoTipo !== "gas_p13") {
+    if (vasilhame) {
+      throw new Error(`${item.produtoNome} não utiliza vasilhame`);
+    }
+    return undefined;
+  }
+
+  const resolvido = vasilhame ?? { devolvidos: item.quantidade, vendidos: 0, emprestados: 0 };
+  if (resolvido.devolvidos + resolvido.vendidos + resolvido.emprestados !== item.quantidade) {
+    throw new Error(`Vasilhames de ${item.produtoNome} devem somar ${item.quantidade}`);
+  }
+  return resolvido;
+}
+
+// Prazo padrão de vencimento das vendas fiado
+const PRAZO_FIADO_DIAS = 30;
+
+/**
+ * Calcula a venda no servidor e monta os registros prontos para gravação,
+ * usados tanto na venda direta quanto na entrega de pedidos
+ */
+export async function prepararVenda(params: {
+  clienteId: number;
+  vendedorId: number;
+  // Sem depósito, a venda sai do depósito do vendedor
+  depositoId?: number;
+  formaPagamento: db.FormaPagamentoVenda;
+  vencimento?: Date;
+  observacoes?: string;
+  itens: ItemVendaSolicitado[];
+  desconto?: DescontoSolicitado;
+  totalInformado?: number;
+  perfil: string;
+  usuarioId?: string;
+}) {
+  const calculo = await calcularVenda({
+    itens: params.itens,
+    desconto: params.desconto,
+    totalInformado: params.totalInformado,
+    clienteId: params.clienteId,
+    perfil: params.perfil,
+  });
+
+  // Fiado é gravado como "outros" na venda e vira conta a receber
+  const aPrazo: db.VendaAPrazo | undefined = params.formaPagamento === "fiado"
+    ? { vencimento: params.vencimento ?? new Date(Date.now() + PRAZO_FIADO_DIAS * 24 * 60 * 60 * 1000) }
+    : undefined;
+
+  const venda: db.VendaNova = {
+    clienteId: params.clienteId,
+    vendedorId: params.vendedorId,
+    depositoId: params.depositoId,
+    formaPagamento: params.formaPagamento === "fiado" ? "outros" : params.formaPagamento,
+    observacoes: params.observacoes,
+    total: calculo.total,
+    lucro: calculo.lucro,
+    usuarioId: params.usuarioId,
+  };
+
+  const itens = calculo.itens.map((item, index) => ({
+    produtoId: item.produtoId,
+    quantidade: item.quantidade,
+    precoUnitario: item.precoUnitario,
+    subtotal: item.subtotal,
+    vasilhame: resolverVasilhame(item, params.itens[index].vasilhame),
+  }));
+
+  const descontos = calculo.descontos.map(desconto => ({
+    ...desconto,
+    usuarioId: params.usuarioId,
+  }));
+
+  return { calculo, venda, itens, descontos, aPrazo };
+}
@@ -1,4 +1,10 @@
+import type { Express, Request, Response } from "express";
 import * as db from "./db";
+import { emitirMensagemRecebida, emitirStatusMensagem, type MensagemRecebidaWhatsApp } from "./whatsappEventos";
+
+function urlInstancia(instanceId: string, token: string) {
+  return `https://api.z-api.io/instances/${instanceId}/token/${token}`;
+}
 
 /**
  * Envia mensagem WhatsApp via Z-API
@@ -36,7 +42,7 @@ export async function enviarMensagemWhatsApp(params: {
     // URL da API Z-API
     const instanceId = config.accountSid;
     const token = config.authToken;
-    const apiUrl = `https://api.z-api.io/instances/${instanceId}/token/${token}/send-text`;
+    const apiUrl = `${urlInstancia(instanceId, token)}/send-text`;
 
     // Preparar dados para Z-API
     const zapiData = {
@@ -72,7 +78,7 @@ export async function enviarMensagemWhatsApp(params: {
     
     return {
       success: true,
-      messageId: result.messageId || result.id || "sent",
+      messageId: result.messageId || result.id || undefined,
     };
   } catch (error: any) {
     console.error("[WhatsApp] Erro ao enviar mensagem:", error);
@@ -83,3 +89,121 @@ export async function enviarMensagemWhatsApp(params: {
   }
 }
 
+
+/**
+ * Status da instância Z-API configurada
+ */
+export async function getStatusZApi() {
+  const config = await db.getConfigWhatsapp();
+  if (!config || !config.accountSid || !config.authToken) {
+    return { connected: false, qrCode: null, error: "WhatsApp não configurado. Configure em Configurações." };
+  }
+
+  try {
+    const response = await fetch(`${urlInstancia(config.accountSid, config.authToken)}/status`);
+    const result = await response.json();
+    return { connected: !!result.connected, qrCode: null, error: result.error as string | undefined };
+  } catch (error: any) {
+    return { connected: false, qrCode: null, error: error.message || "Erro ao consultar status" };
+  }
+}
+
+// Status de mensagem enviados pelo webhook da Z-API
+const STATUS_ZAPI: Record<string, "entregue" | "lida"> = {
+  RECEIVED: "entregue",
+  READ: "lida",
+  PLAYED: "lida",
+};
+
+/**
+ * Baixa o áudio recebido pela URL que a Z-API envia no webhook
+ */
+export async function baixarAudioZApi(url: string, mimeType?: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Erro ao baixar áudio da Z-API: ${response.status}`);
+  }
+  return {
+    dados: Buffer.from(await response.arrayBuffer()),
+    mimeType: mimeType || response.headers.get("content-type") || "audio/ogg",
+  };
+}
+
+async function converterMensagemZApi(body: any): Promise<MensagemRecebidaWhatsApp | null> {
+  if (body.fromMe || body.isGroup || !body.phone) return null;
+
+  let tipo: MensagemRecebidaWhatsApp["tipo"] = "outro";
+  let conteudo = "";
+  let midia: MensagemRecebidaWhatsApp["midia"];
+  let midiaReferencia: MensagemRecebidaWhatsApp["midiaReferencia"];
+
+  if (body.text?.message) {
+    tipo = "texto";
+    conteudo = body.text.message;
+  } else if (body.audio?.audioUrl) {
+    tipo = "audio";
+    midiaReferencia = { provedor: "zapi", referencia: body.audio.audioUrl };
+    try {
+      midia = await baixarAudioZApi(body.audio.audioUrl, body.audio.mimeType);
+    } catch (error) {
+      console.error("[WhatsApp] Erro ao baixar áudio recebido via Z-API:", error);
+    }
+  } else if (body.image) {
+    tipo = "imagem";
+    conteudo = body.image.caption || "";
+  }
+
+  return {
+    telefone: String(body.phone),
+    nomeContato: body.senderName || body.chatName || undefined,
+    provedorMensagemId: body.messageId || undefined,
+    tipo,
+    conteudo,
+    recebidaEm: body.momment ? new Date(Number(body.momment)) : new Date(),
+    midia,
+    midiaReferencia,
+  };
+}
+
+/**
+ * Webhook da Z-API para mensagens recebidas e status das enviadas. A URL
+ * cadastrada na Z-API deve levar ?token= com o token da instância.
+ */
+export function registerZApiWebhook(app: Express) {
+  app.post("/api/whatsapp/zapi/webhook", async (req: Request, res: Response) => {
+    try {
+      const config = await db.getConfigWhatsapp();
+      if (!config?.authToken || req.query.token !== config.authToken) {
+        res.status(401).json({ error: "invalid token" });
+        return;
+      }
+
+      // Responde logo; a Z-API reenvia webhooks que demoram
+      res.status(200).json({ ok: true });
+
+      const body = req.body ?? {};
+      if (body.type === "MessageStatusCallback") {
+        const status = STATUS_ZAPI[body.status];
+        if (!status) return;
+        for (const id of body.ids ?? []) {
+          await emitirStatusMensagem({
+            provedorMensagemId: String(id),
+            status,
+            em: body.momment ? new Date(Number(body.momment)) : new Date(),
+          });
+        }
+      } else if (body.type === "ReceivedCallback") {
+        const mensagem = await converterMensagemZApi(body);
+        if (mensagem) {
+          await emitirMensagemRecebida(mensagem);
+        }
+      }
+    } catch (error) {
+      console.error("[WhatsApp] Erro ao processar webhook da Z-API:", error);
+      // Falha antes da resposta, como na leitura da configuração
+      if (!res.headersSent) {
+        res.status(500).json({ error: "internal error" });
+      }
+    }
+  });
+}
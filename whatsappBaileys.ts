@@ -1,11 +1,19 @@
 import makeWASocket, {
+  BufferJSON,
   DisconnectReason,
+  downloadMediaMessage,
   useMultiFileAuthState,
   fetchLatestBaileysVersion,
 } from "@whiskeysockets/baileys";
 import { Boom } from "@hapi/boom";
 import * as fs from "fs";
 import * as path from "path";
+import {
+  emitirMensagemRecebida,
+  emitirStatusMensagem,
+  type MensagemRecebidaWhatsApp,
+  type StatusMensagemWhatsApp,
+} from "./whatsappEventos";
 
 let sock: ReturnType<typeof makeWASocket> | null = null;
 let isConnected = false;
@@ -13,6 +21,85 @@ let qrCode: string | null = null;
 
 const AUTH_DIR = path.join(process.cwd(), "baileys_auth");
 
+// Status do protocolo: 3 = entregue ao aparelho, 4 = lida, 5 = áudio reproduzido
+function converterStatus(codigo: number | null | undefined): StatusMensagemWhatsApp["status"] | null {
+  if (codigo === 3) return "entregue";
+  if (codigo === 4 || codigo === 5) return "lida";
+  return null;
+}
+
+/**
+ * Converte a mensagem do Baileys; ignora grupos, status e mensagens enviadas
+ * por este próprio número
+ */
+async function converterMensagemRecebida(msg: any): Promise<MensagemRecebidaWhatsApp | null> {
+  const jid: string | undefined = msg.key?.remoteJid;
+  if (!jid || !jid.endsWith("@s.whatsapp.net") || msg.key.fromMe || !msg.message) {
+    return null;
+  }
+
+  const conteudo = msg.message.conversation
+    || msg.message.extendedTextMessage?.text
+    || msg.message.imageMessage?.caption
+    || "";
+
+  let tipo: MensagemRecebidaWhatsApp["tipo"] = "outro";
+  if (msg.message.audioMessage) {
+    tipo = "audio";
+  } else if (msg.message.imageMessage) {
+    tipo = "imagem";
+  } else if (conteudo) {
+    tipo = "texto";
+  }
+
+  let midia: MensagemRecebidaWhatsApp["midia"];
+  let midiaReferencia: MensagemRecebidaWhatsApp["midiaReferencia"];
+  if (tipo === "audio") {
+    // Chave e chaves de mídia bastam para baixar o arquivo de novo
+    midiaReferencia = {
+      provedor: "baileys",
+      referencia: JSON.stringify({ key: msg.key, message: msg.message }, BufferJSON.replacer),
+    };
+    try {
+      midia = await baixarAudioBaileys(msg);
+    } catch (error) {
+      console.error("[WhatsApp] Erro ao baixar áudio recebido:", error);
+    }
+  }
+
+  return {
+    telefone: jid.split("@")[0],
+    nomeContato: msg.pushName || undefined,
+    provedorMensagemId: msg.key.id || undefined,
+    tipo,
+    conteudo,
+    recebidaEm: msg.messageTimestamp ? new Date(Number(msg.messageTimestamp) * 1000) : new Date(),
+    midia,
+    midiaReferencia,
+  };
+}
+
+/**
+ * Baixa o áudio da mensagem. Com a conexão aberta, o WhatsApp reenvia a
+ * mídia que já expirou no servidor.
+ */
+async function baixarAudioBaileys(msg: any) {
+  const dados = await downloadMediaMessage(
+    msg,
+    "buffer",
+    {},
+    sock ? { reuploadRequest: sock.updateMediaMessage, logger: sock.logger } : undefined
+  );
+  return { dados: dados as Buffer, mimeType: msg.message.audioMessage?.mimetype || "audio/ogg" };
+}
+
+/**
+ * Baixa de novo o áudio a partir da referência gravada no recebimento
+ */
+export async function baixarMidiaBaileys(referencia: string) {
+  return await baixarAudioBaileys(JSON.parse(referencia, BufferJSON.reviver));
+}
+
 /**
  * Inicializa conexão WhatsApp com Baileys
  */
@@ -64,6 +151,39 @@ export async function initWhatsAppConnection() {
 
     sock.ev.on("creds.update", saveCreds);
 
+    sock.ev.on("messages.update", async (updates) => {
+      for (const { key, update } of updates) {
+        const status = converterStatus(update.status);
+        if (!key.fromMe || !key.id || !status) continue;
+        await emitirStatusMensagem({ provedorMensagemId: key.id, status, em: new Date() });
+      }
+    });
+
+    // Recibos trazem o horário exato da entrega e da leitura
+    sock.ev.on("message-receipt.update", async (recibos) => {
+      for (const { key, receipt } of recibos) {
+        if (!key.fromMe || !key.id) continue;
+        if (receipt.receiptTimestamp) {
+          await emitirStatusMensagem({ provedorMensagemId: key.id, status: "entregue", em: new Date(Number(receipt.receiptTimestamp) * 1000) });
+        }
+        if (receipt.readTimestamp) {
+          await emitirStatusMensagem({ provedorMensagemId: key.id, status: "lida", em: new Date(Number(receipt.readTimestamp) * 1000) });
+        }
+      }
+    });
+
+    sock.ev.on("messages.upsert", async ({ messages, type }) => {
+      // "append" são mensagens antigas sincronizadas ao reconectar
+      if (type !== "notify") return;
+
+      for (const msg of messages) {
+        const mensagem = await converterMensagemRecebida(msg);
+        if (mensagem) {
+          await emitirMensagemRecebida(mensagem);
+        }
+      }
+    });
+
     return { success: true };
   } catch (error: any) {
     console.error("[WhatsApp] Erro ao inicializar:", error);
@@ -105,7 +225,7 @@ export async function enviarMensagemBaileys({
 
     return {
       success: true,
-      messageId: result?.key?.id || "sent",
+      messageId: result?.key?.id || undefined,
     };
   } catch (error: any) {
     console.error("[WhatsApp] Erro ao enviar mensagem:", error);
@@ -145,6 +265,4 @@ export async function disconnectWhatsApp() {
   }
 }
 
-// Inicializar conexão automaticamente ao iniciar o servidor
-initWhatsAppConnection();
 
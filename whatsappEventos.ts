@@ -0,0 +1,71 @@
+/**
+ * Eventos de entrada comuns a todos os provedores de WhatsApp: mensagens
+ * recebidas de contatos e confirmações de entrega/leitura das enviadas
+ */
+
+// Onde o provedor permite baixar a mídia de novo: a mensagem serializada no
+// Baileys e a URL do arquivo na Z-API
+export type ReferenciaMidiaWhatsApp = {
+  provedor: "baileys" | "zapi";
+  referencia: string;
+};
+
+export type MensagemRecebidaWhatsApp = {
+  telefone: string;
+  nomeContato?: string;
+  provedorMensagemId?: string;
+  tipo: "texto" | "audio" | "imagem" | "outro";
+  conteudo: string;
+  recebidaEm: Date;
+  // Arquivo de áudio baixado do provedor
+  midia?: { dados: Buffer; mimeType: string };
+  // Presente mesmo quando o download falhou, para reprocessar depois
+  midiaReferencia?: ReferenciaMidiaWhatsApp;
+};
+
+export type StatusMensagemWhatsApp = {
+  provedorMensagemId: string;
+  status: "entregue" | "lida";
+  em: Date;
+};
+
+type ReceptorMensagem = (mensagem: MensagemRecebidaWhatsApp) => Promise<void> | void;
+type ReceptorStatus = (status: StatusMensagemWhatsApp) => Promise<void> | void;
+
+const receptoresMensagem: ReceptorMensagem[] = [];
+const receptoresStatus: ReceptorStatus[] = [];
+
+/**
+ * Registra uma função chamada para cada mensagem recebida de um contato
+ */
+export function onMensagemRecebida(receptor: ReceptorMensagem) {
+  receptoresMensagem.push(receptor);
+}
+
+/**
+ * Registra uma função chamada a cada confirmação de entrega ou leitura de
+ * mensagem enviada por este número
+ */
+export function onStatusMensagem(receptor: ReceptorStatus) {
+  receptoresStatus.push(receptor);
+}
+
+export async function emitirMensagemRecebida(mensagem: MensagemRecebidaWhatsApp) {
+  for (const receptor of receptoresMensagem) {
+    try {
+      await receptor(mensagem);
+    } catch (error) {
+      console.error("[WhatsApp] Erro ao processar mensagem recebida:", error);
+    }
+  }
+}
+
+export async function emitirStatusMensagem(status: StatusMensagemWhatsApp) {
+  for (const receptor of receptoresStatus) {
+    try {
+      await receptor(status);
+    } catch (error) {
+      console.error("[WhatsApp] Erro ao processar status de mensagem:", error);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "./db";
+import { dispararCampanha } from "./campanhas";
+import { enviarMensagemComFila } from "./filaMensagens";
+import { getMensagensFake, limparMensagensFake } from "./whatsappFake";
+
+type ItemFilaTeste = {
+  id: number;
+  clienteId: number;
+  conteudo: string;
+  marketing: boolean;
+  campanhaId: number | null;
+  status: "pendente" | "enviada" | "erro";
+};
+
+const fila: ItemFilaTeste[] = [];
+
+const clientes = [
+  { id: 1, nome: "Maria Souza", telefone: "85999990001", bairro: "Centro", regiao: "Norte" },
+  { id: 2, nome: "João Lima", telefone: "85999990002", bairro: null, regiao: null },
+  { id: 3, nome: "Ana Costa", telefone: "85999990003", bairro: null, regiao: null },
+];
+
+// Clientes com consentimento de marketing registrado
+const consentidos = new Set([1, 2]);
+
+// Fila em memória no lugar do banco; o provedor é o fake de verdade
+vi.mock("./db", () => ({
+  getConfigProvedorWhatsapp: vi.fn(async () => ({ provedor: "fake" })),
+  getConfigWhatsapp: vi.fn(async () => undefined),
+  getClienteById: vi.fn(async (id: number) => clientes.find(c => c.id === id)),
+  enfileirarMensagem: vi.fn(async (mensagem: { clienteId: number; conteudo: string }, opcoes: { campanhaId?: number; marketing: boolean }) => {
+    const id = fila.length + 1;
+    fila.push({
+      id,
+      clienteId: mensagem.clienteId,
+      conteudo: mensagem.conteudo,
+      marketing: opcoes.marketing,
+      campanhaId: opcoes.campanhaId ?? null,
+      status: "pendente",
+    });
+    return id;
+  }),
+  getMensagensFilaProntas: vi.fn(async (_agora: Date, limite: number, mensagemId?: number) => fila
+    .filter(item => item.status === "pendente" && (!mensagemId || item.id === mensagemId))
+    .slice(0, limite)
+    .map(item => ({
+      id: item.id,
+      mensagemId: item.id,
+      tentativas: 0,
+      maxTentativas: 5,
+      marketing: item.marketing,
+      clienteId: item.clienteId,
+      clienteTelefone: clientes.find(c => c.id === item.clienteId)?.telefone ?? null,
+      semConsentimento: !consentidos.has(item.clienteId),
+      conteudo: item.conteudo,
+      campanhaId: item.campanhaId,
+    }))),
+  bloquearMensagemFila: vi.fn(async () => true),
+  registrarEnvioMensagemFila: vi.fn(async (id: number) => {
+    fila[id - 1].status = "enviada";
+  }),
+  registrarFalhaMensagemFila: vi.fn(async (id: number) => {
+    fila[id - 1].status = "erro";
+  }),
+  incrementarEnviadasCampanha: vi.fn(),
+  getCampanhaById: vi.fn(async (id: number) => ({
+    id,
+    nome: "Promoção de inverno",
+    tipo: "promocao",
+    mensagem: "Olá {primeiroNome}, o P13 está em promoção!",
+    filtros: null,
+    status: "rascunho",
+  })),
+  getClientesAudiencia: vi.fn(async () => clientes.filter(c => consentidos.has(c.id))),
+  getMensagensCampanha: vi.fn(async (campanhaId: number) => fila
+    .filter(item => item.campanhaId === campanhaId)
+    .map(item => ({ id: item.id, clienteId: item.clienteId }))),
+  concluirEnfileiramentoCampanha: vi.fn(async () => true),
+}));
+
+// O Baileys abriria um socket só por ser importado pelo seletor de provedores
+vi.mock("./whatsappBaileys", () => ({
+  initWhatsAppConnection: vi.fn(),
+  enviarMensagemBaileys: vi.fn(),
+  getWhatsAppStatus: vi.fn(),
+  disconnectWhatsApp: vi.fn(),
+  baixarMidiaBaileys: vi.fn(),
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fila.length = 0;
+  limparMensagensFake();
+});
+
+describe("provedor fake", () => {
+  it("entrega a mensagem da fila na primeira tentativa", async () => {
+    const resultado = await enviarMensagemComFila({ clienteId: 1, tipo: "manual", conteudo: "Seu pedido saiu para entrega" });
+
+    expect(resultado.enviada).toBe(true);
+    expect(resultado.messageId).toMatch(/^fake-/);
+    expect(getMensagensFake()).toEqual([
+      expect.objectContaining({ telefone: "85999990001", mensagem: "Seu pedido saiu para entrega" }),
+    ]);
+    expect(db.registrarEnvioMensagemFila).toHaveBeenCalledWith(1, 1, resultado.messageId);
+  });
+
+  it("não reenvia quando a gravação do envio falha", async () => {
+    vi.mocked(db.registrarEnvioMensagemFila).mockRejectedValueOnce(new Error("Conexão perdida"));
+    const erroLog = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const resultado = await enviarMensagemComFila({ clienteId: 1, tipo: "manual", conteudo: "Seu pedido saiu para entrega" });
+
+    expect(resultado.enviada).toBe(true);
+    expect(getMensagensFake()).toHaveLength(1);
+    expect(db.registrarEnvioMensagemFila).toHaveBeenCalledTimes(2);
+    expect(db.registrarFalhaMensagemFila).not.toHaveBeenCalled();
+    expect(fila[0].status).toBe("enviada");
+    erroLog.mockRestore();
+  });
+
+  it("não entrega marketing a quem não tem consentimento registrado", async () => {
+    const promocao = await enviarMensagemComFila({ clienteId: 3, tipo: "promocao", conteudo: "P13 em promoção!" });
+    const aviso = await enviarMensagemComFila({ clienteId: 3, tipo: "manual", conteudo: "Seu pedido saiu para entrega" });
+
+    expect(promocao.enviada).toBe(false);
+    expect(promocao.erro).toBe("Cliente não consentiu em receber mensagens de marketing");
+    expect(aviso.enviada).toBe(true);
+    expect(getMensagensFake("85999990003").map(m => m.mensagem)).toEqual(["Seu pedido saiu para entrega"]);
+  });
+
+  it("envia a campanha personalizada para cada cliente da audiência", async () => {
+    const disparo = await dispararCampanha(10);
+
+    expect(disparo).toEqual({ campanhaId: 10, totalClientes: 2, falhas: 0 });
+    expect(db.concluirEnfileiramentoCampanha).toHaveBeenCalledWith(10, 2);
+
+    // A fila roda em segundo plano com uma pausa entre envios
+    await vi.waitFor(() => expect(getMensagensFake()).toHaveLength(2), { timeout: 10_000, interval: 100 });
+
+    expect(getMensagensFake("85999990001")[0].mensagem).toBe("Olá Maria, o P13 está em promoção!");
+    expect(getMensagensFake("85999990002")[0].mensagem).toBe("Olá João, o P13 está em promoção!");
+    expect(db.incrementarEnviadasCampanha).toHaveBeenCalledTimes(2);
+  }, 15_000);
+
+  it("não repete clientes já enfileirados ao disparar de novo", async () => {
+    await db.enfileirarMensagem(
+      { clienteId: 1, tipo: "promocao", conteudo: "Olá Maria, o P13 está em promoção!" },
+      { campanhaId: 10, maxTentativas: 5, marketing: true }
+    );
+
+    const disparo = await dispararCampanha(10);
+
+    expect(disparo.totalClientes).toBe(2);
+    expect(fila.filter(item => item.campanhaId === 10)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+import { emitirMensagemRecebida, emitirStatusMensagem } from "./whatsappEventos";
+import type { ProvedorWhatsApp } from "./whatsappProvedor";
+
+export type MensagemFake = {
+  messageId: string;
+  telefone: string;
+  mensagem: string;
+  enviadaEm: Date;
+};
+
+// Guarda só as mensagens mais recentes para não crescer sem limite
+const LIMITE_MENSAGENS = 500;
+
+const enviadas: MensagemFake[] = [];
+
+/**
+ * Provedor em memória para testar campanhas e notificações sem celular:
+ * registra cada envio e permite simular mensagens recebidas e confirmações
+ */
+export const provedorFake: ProvedorWhatsApp = {
+  nome: "fake",
+  async enviar({ telefone, mensagem }) {
+    const messageId = `fake-${randomUUID()}`;
+    enviadas.push({ messageId, telefone, mensagem, enviadaEm: new Date() });
+    if (enviadas.length > LIMITE_MENSAGENS) {
+      enviadas.splice(0, enviadas.length - LIMITE_MENSAGENS);
+    }
+    return { success: true, messageId };
+  },
+  async status() {
+    return { connected: true, qrCode: null };
+  },
+  async desconectar() {
+    enviadas.length = 0;
+  },
+};
+
+export function getMensagensFake(telefone?: string) {
+  return telefone ? enviadas.filter(m => m.telefone === telefone) : [...enviadas];
+}
+
+export function limparMensagensFake() {
+  enviadas.length = 0;
+}
+
+export async function simularMensagemRecebidaFake(params: { telefone: string; conteudo: string; nomeContato?: string }) {
+  const provedorMensagemId = `fake-${randomUUID()}`;
+  await emitirMensagemRecebida({
+    telefone: params.telefone,
+    nomeContato: params.nomeContato,
+    provedorMensagemId,
+    tipo: "texto",
+    conteudo: params.conteudo,
+    recebidaEm: new Date(),
+  });
+  return { provedorMensagemId };
+}
+
+export async function simularStatusFake(messageId: string, status: "entregue" | "lida") {
+  await emitirStatusMensagem({ provedorMensagemId: messageId, status, em: new Date() });
+}
@@ -0,0 +1,125 @@
+import * as db from "./db";
+import { baixarAudioZApi, enviarMensagemWhatsApp, getStatusZApi } from "./whatsapp";
+import { baixarMidiaBaileys, disconnectWhatsApp, enviarMensagemBaileys, getWhatsAppStatus, initWhatsAppConnection } from "./whatsappBaileys";
+import type { ReferenciaMidiaWhatsApp } from "./whatsappEventos";
+import { provedorFake } from "./whatsappFake";
+
+export type NomeProvedorWhatsApp = "baileys" | "zapi" | "fake";
+
+export type ResultadoEnvioWhatsApp = { success: boolean; error?: string; messageId?: string };
+
+export type StatusWhatsApp = { connected: boolean; qrCode: string | null; error?: string };
+
+/**
+ * Provedor de WhatsApp. Mensagens recebidas e confirmações de entrega são
+ * publicadas pelo provedor em whatsappEventos; iniciar liga essa recepção
+ * quando ela depende de uma conexão própria.
+ */
+export interface ProvedorWhatsApp {
+  nome: NomeProvedorWhatsApp;
+  iniciar?(): Promise<unknown>;
+  enviar(params: { telefone: string; mensagem: string }): Promise<ResultadoEnvioWhatsApp>;
+  status(): Promise<StatusWhatsApp>;
+  desconectar?(): Promise<void>;
+  // Baixa de novo a mídia de uma mensagem recebida
+  baixarMidia?(referencia: string): Promise<{ dados: Buffer; mimeType: string }>;
+}
+
+let baileysIniciado = false;
+
+const provedorBaileys: ProvedorWhatsApp = {
+  nome: "baileys",
+  async iniciar() {
+    // A própria conexão do Baileys reconecta sozinha depois de iniciada
+    if (baileysIniciado) return;
+    baileysIniciado = true;
+    return await initWhatsAppConnection();
+  },
+  enviar: enviarMensagemBaileys,
+  async status() {
+    return getWhatsAppStatus();
+  },
+  async desconectar() {
+    await disconnectWhatsApp();
+    baileysIniciado = false;
+  },
+  baixarMidia: baixarMidiaBaileys,
+};
+
+// A Z-API recebe mensagens pelo webhook registrado no servidor HTTP
+const provedorZApi: ProvedorWhatsApp = {
+  nome: "zapi",
+  enviar: enviarMensagemWhatsApp,
+  status: getStatusZApi,
+  baixarMidia: url => baixarAudioZApi(url),
+};
+
+const PROVEDORES: Record<NomeProvedorWhatsApp, ProvedorWhatsApp> = {
+  baileys: provedorBaileys,
+  zapi: provedorZApi,
+  fake: provedorFake,
+};
+
+/**
+ * Provedor escolhido nas configurações. Sem escolha gravada, usa a Z-API
+ * quando ela está configurada e ativa em configWhatsapp e o Baileys nos
+ * demais casos.
+ */
+export async function getNomeProvedorAtivo(): Promise<NomeProvedorWhatsApp> {
+  const escolhido = await db.getConfigProvedorWhatsapp();
+  if (escolhido) return escolhido.provedor;
+
+  const config = await db.getConfigWhatsapp();
+  return config?.ativo && config.accountSid && config.authToken ? "zapi" : "baileys";
+}
+
+export async function getProvedorWhatsApp() {
+  return PROVEDORES[await getNomeProvedorAtivo()];
+}
+
+/**
+ * Envia a mensagem pelo provedor ativo
+ */
+export async function enviarMensagem(params: { telefone: string; mensagem: string }): Promise<ResultadoEnvioWhatsApp> {
+  const provedor = await getProvedorWhatsApp();
+  return await provedor.enviar(params);
+}
+
+/**
+ * Baixa de novo a mídia pelo provedor que recebeu a mensagem, mesmo que o
+ * provedor ativo tenha mudado desde então
+ */
+export async function baixarMidiaWhatsApp(midia: ReferenciaMidiaWhatsApp) {
+  const provedor = PROVEDORES[midia.provedor];
+  if (!provedor.baixarMidia) {
+    throw new Error(`O provedor ${provedor.nome} não permite baixar a mídia de novo`);
+  }
+  return await provedor.baixarMidia(midia.referencia);
+}
+
+export async function getStatusWhatsApp() {
+  const provedor = await getProvedorWhatsApp();
+  return { provedor: provedor.nome, ...(await provedor.status()) };
+}
+
+export async function desconectarWhatsApp() {
+  const provedor = await getProvedorWhatsApp();
+  if (!provedor.desconectar) {
+    throw new Error("O provedor ativo não permite desconectar por aqui");
+  }
+  await provedor.desconectar();
+}
+
+/**
+ * Inicia a recepção do provedor ativo; chamado na subida do servidor e ao
+ * trocar de provedor
+ */
+export async function iniciarWhatsApp() {
+  try {
+    const provedor = await getProvedorWhatsApp();
+    await provedor.iniciar?.();
+    console.log(`[WhatsApp] Provedor ativo: ${provedor.nome}`);
+  } catch (error) {
+    console.error("[WhatsApp] Erro ao iniciar provedor:", error);
+  }
+}